@@ -0,0 +1,281 @@
+// Transcodes uploaded lecture videos into HLS renditions and a poster frame.
+//
+// Claims jobs from public.video_transcodes, downloads the source MP4 from the
+// videos bucket, runs ffmpeg locally and uploads the result to
+// videos/hls/<video_id>/. Needs ffmpeg and ffprobe on the PATH and:
+//
+//   SUPABASE_URL=https://<project>.supabase.co
+//   SUPABASE_SERVICE_ROLE_KEY=<service role key>
+//
+// npm run transcode             works through the queue, then exits
+// npm run transcode -- --watch  keeps polling for new uploads
+import { spawn } from 'node:child_process';
+import { createWriteStream } from 'node:fs';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createClient } from '@supabase/supabase-js';
+
+const BUCKET = 'videos';
+const POLL_INTERVAL_MS = 30 * 1000;
+const SEGMENT_SECONDS = 6;
+const LIST_PAGE_SIZE = 100;
+const DOWNLOAD_URL_SECONDS = 60 * 60;
+
+// Renditions taller than the source are skipped; the smallest is always made
+const RENDITIONS = [
+  { name: '1080p', height: 1080, videoBitrate: 5000, audioBitrate: 128 },
+  { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: '480p', height: 480, videoBitrate: 1400, audioBitrate: 96 },
+  { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 96 },
+];
+
+const CONTENT_TYPES = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.jpg': 'image/jpeg',
+};
+
+const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const run = (command, args) =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => { stdout += chunk; });
+    child.stderr.on('data', (chunk) => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) resolve(stdout);
+      // The last lines of ffmpeg's output carry the actual error
+      else reject(new Error(`${command} exited with ${code}: ${stderr.trim().split('\n').slice(-3).join(' ')}`));
+    });
+  });
+
+const probe = async (input) => {
+  const output = await run('ffprobe', [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height:format=duration',
+    '-of', 'json',
+    input,
+  ]);
+  const { streams, format } = JSON.parse(output);
+  if (!streams?.length) throw new Error('The file has no video stream');
+  return { width: streams[0].width, height: streams[0].height, duration: parseFloat(format.duration) || 0 };
+};
+
+const ladderFor = (source) => {
+  const fitting = RENDITIONS.filter(rendition => rendition.height <= source.height);
+  const ladder = fitting.length > 0 ? fitting : [RENDITIONS[RENDITIONS.length - 1]];
+  return ladder.map(rendition => ({
+    ...rendition,
+    // Keep the aspect ratio; H.264 needs even dimensions
+    width: Math.round((source.width * rendition.height) / source.height / 2) * 2,
+  }));
+};
+
+const transcodeRendition = (input, outputDir, rendition) =>
+  run('ffmpeg', [
+    '-y', '-i', input,
+    '-map', '0:v:0', '-map', '0:a:0?',
+    '-vf', `scale=${rendition.width}:${rendition.height}`,
+    '-c:v', 'libx264', '-preset', 'veryfast', '-profile:v', 'main', '-crf', '21',
+    '-maxrate', `${rendition.videoBitrate}k`, '-bufsize', `${rendition.videoBitrate * 2}k`,
+    // Keyframes on segment boundaries in every rendition so players can switch cleanly
+    '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_SECONDS})`, '-sc_threshold', '0',
+    '-c:a', 'aac', '-b:a', `${rendition.audioBitrate}k`, '-ac', '2',
+    '-f', 'hls',
+    '-hls_time', String(SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', join(outputDir, rendition.name, 'segment_%04d.ts'),
+    join(outputDir, rendition.name, 'index.m3u8'),
+  ]);
+
+const extractPoster = (input, outputDir, duration) =>
+  run('ffmpeg', [
+    '-y',
+    // A frame a little way in is more likely to show the lecture than a black intro
+    '-ss', String(Math.min(5, duration / 10)),
+    '-i', input,
+    '-frames:v', '1',
+    '-vf', 'scale=-2:720',
+    '-q:v', '3',
+    join(outputDir, 'poster.jpg'),
+  ]);
+
+const bandwidthOf = (rendition) => (rendition.videoBitrate + rendition.audioBitrate) * 1000;
+
+const masterPlaylist = (ladder) =>
+  [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    ...ladder.flatMap(rendition => [
+      `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidthOf(rendition)},RESOLUTION=${rendition.width}x${rendition.height},NAME="${rendition.name}"`,
+      `${rendition.name}/index.m3u8`,
+    ]),
+    '',
+  ].join('\n');
+
+const listFiles = async (dir) => {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true });
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => join(entry.parentPath ?? entry.path, entry.name));
+};
+
+const listObjects = async (prefix) => {
+  const names = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset });
+    if (error) throw error;
+
+    for (const item of data) {
+      const name = `${prefix}/${item.name}`;
+      // Folders come back without an id
+      if (item.id) names.push(name);
+      else names.push(...await listObjects(name));
+    }
+    if (data.length < LIST_PAGE_SIZE) return names;
+  }
+};
+
+// Output from an earlier source may have more segments than the new one
+const clearOutput = async (prefix) => {
+  const names = await listObjects(prefix);
+  if (names.length === 0) return;
+  const { error } = await supabase.storage.from(BUCKET).remove(names);
+  if (error) throw error;
+};
+
+const uploadOutput = async (outputDir, prefix) => {
+  for (const file of await listFiles(outputDir)) {
+    const name = `${prefix}/${relative(outputDir, file).split('\\').join('/')}`;
+    const extension = file.slice(file.lastIndexOf('.'));
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(name, await readFile(file), {
+        contentType: CONTENT_TYPES[extension] ?? 'application/octet-stream',
+        upsert: true,
+      });
+    if (error) throw error;
+  }
+};
+
+// Lectures can be several gigabytes, so the source goes straight to disk
+// instead of through memory
+const downloadSource = async (sourcePath, workDir) => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(sourcePath, DOWNLOAD_URL_SECONDS);
+  if (error) throw error;
+
+  const response = await fetch(data.signedUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`Downloading ${sourcePath} failed with ${response.status}`);
+  }
+
+  const input = join(workDir, 'source.mp4');
+  await pipeline(Readable.fromWeb(response.body), createWriteStream(input));
+  return input;
+};
+
+// Results only land when the job still points at the file we transcoded;
+// replacing the upload mid-run resets the job to pending
+const finishJob = async (job, values) => {
+  const { error } = await supabase
+    .from('video_transcodes')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('video_id', job.video_id)
+    .eq('source_path', job.source_path)
+    .eq('status', 'processing');
+
+  if (error) throw error;
+};
+
+const processJob = async (job) => {
+  const prefix = `hls/${job.video_id}`;
+  const workDir = await mkdtemp(join(tmpdir(), 'transcode-'));
+  const outputDir = join(workDir, 'output');
+
+  try {
+    const input = await downloadSource(job.source_path, workDir);
+    const source = await probe(input);
+    const ladder = ladderFor(source);
+
+    for (const rendition of ladder) {
+      console.log(`  ${rendition.name}...`);
+      await mkdir(join(outputDir, rendition.name), { recursive: true });
+      await transcodeRendition(input, outputDir, rendition);
+    }
+    await extractPoster(input, outputDir, source.duration);
+    await writeFile(join(outputDir, 'master.m3u8'), masterPlaylist(ladder));
+
+    await clearOutput(prefix);
+    await uploadOutput(outputDir, prefix);
+
+    await finishJob(job, {
+      status: 'ready',
+      playlist_path: `${prefix}/master.m3u8`,
+      poster_path: `${prefix}/poster.jpg`,
+      renditions: ladder.map(rendition => ({
+        name: rendition.name,
+        width: rendition.width,
+        height: rendition.height,
+        bandwidth: bandwidthOf(rendition),
+      })),
+      duration_seconds: source.duration,
+      error: null,
+    });
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
+
+const claimJob = async () => {
+  const { data, error } = await supabase.rpc('claim_video_transcode');
+  if (error) throw error;
+  return data?.[0] ?? null;
+};
+
+const drainQueue = async () => {
+  let job;
+  while ((job = await claimJob())) {
+    console.log(`Transcoding ${job.source_path} for video ${job.video_id} (attempt ${job.attempts})`);
+    try {
+      await processJob(job);
+      console.log('  done');
+    } catch (error) {
+      console.error(`  failed: ${error.message}`);
+      await finishJob(job, { status: 'failed', error: error.message }).catch((updateError) => {
+        console.error('  could not record the failure:', updateError.message);
+      });
+    }
+  }
+};
+
+const watch = process.argv.includes('--watch');
+
+do {
+  try {
+    await drainQueue();
+  } catch (error) {
+    // A one-off outage should not stop a long-running worker
+    if (!watch) throw error;
+    console.error(`Checking the queue failed: ${error.message}`);
+  }
+  if (watch) await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+} while (watch);
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Check, X } from 'lucide-react';
+
+interface AccessRequest {
+  id: string;
+  user_id: string;
+  kind: string;
+  full_name: string | null;
+  institution: string | null;
+  reason: string | null;
+  subject_ids: string[];
+  status: string;
+  admin_message: string | null;
+  decided_at: string | null;
+  created_at: string;
+  users: { email: string } | null;
+}
+
+interface AccessRequestsTabProps {
+  subjects: { id: string; name: string }[];
+  onDecided: () => void;
+}
+
+const AccessRequestsTab = ({ subjects, onDecided }: AccessRequestsTabProps) => {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [messages, setMessages] = useState<Record<string, string>>({});
+  // New end date per renewal request, as yyyy-MM-dd from the date input
+  const [expiryDates, setExpiryDates] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const fetchRequests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('access_requests')
+        .select('*, users!access_requests_user_id_fkey(email)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRequests((data || []) as AccessRequest[]);
+    } catch (error) {
+      console.error('Error fetching access requests:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load access requests",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const decideRequest = async (requestId: string, approve: boolean) => {
+    const expiryDate = expiryDates[requestId];
+
+    try {
+      const { error } = await supabase.rpc('decide_access_request', {
+        p_request_id: requestId,
+        p_approve: approve,
+        p_message: messages[requestId] || null,
+        p_access_expires_at: expiryDate ? new Date(`${expiryDate}T23:59:59`).toISOString() : undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Request ${approve ? 'approved' : 'rejected'}`,
+      });
+
+      fetchRequests();
+      onDecided();
+    } catch (error) {
+      console.error('Error deciding access request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update access request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getSubjectName = (subjectId: string) =>
+    subjects.find(s => s.id === subjectId)?.name || 'Unknown Subject';
+
+  const pendingRequests = requests.filter(r => r.status === 'pending');
+  const decidedRequests = requests.filter(r => r.status !== 'pending');
+
+  const renderDetails = (request: AccessRequest) => (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-medium">{request.full_name || request.users?.email}</h3>
+        <Badge variant="outline" className="capitalize">{request.kind}</Badge>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {request.users?.email}
+        {request.institution && ` · ${request.institution}`}
+        {` · ${new Date(request.created_at).toLocaleDateString()}`}
+      </p>
+      {request.reason && <p className="text-sm">{request.reason}</p>}
+      <div className="flex flex-wrap gap-1">
+        {request.kind === 'access' && (
+          request.subject_ids.length === 0 ? (
+            <Badge variant="secondary">All subjects</Badge>
+          ) : (
+            request.subject_ids.map((subjectId) => (
+              <Badge key={subjectId} variant="secondary">{getSubjectName(subjectId)}</Badge>
+            ))
+          )
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Requests</CardTitle>
+          <CardDescription>
+            Approving grants the requested subjects, or every subject if none were chosen.
+            Approving a renewal extends the student's access, and any lapsed subject grants, to the date you pick.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {pendingRequests.map((request) => (
+              <div key={request.id} className="p-4 border rounded-lg space-y-4">
+                {renderDetails(request)}
+                <Textarea
+                  value={messages[request.id] || ''}
+                  onChange={(e) => setMessages({...messages, [request.id]: e.target.value})}
+                  placeholder="Optional message to the student"
+                />
+                {request.kind === 'renewal' && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`renewal-expiry-${request.id}`}>Access until</Label>
+                    <Input
+                      id={`renewal-expiry-${request.id}`}
+                      type="date"
+                      className="w-48"
+                      min={format(new Date(), 'yyyy-MM-dd')}
+                      value={expiryDates[request.id] || ''}
+                      onChange={(e) => setExpiryDates({...expiryDates, [request.id]: e.target.value})}
+                    />
+                  </div>
+                )}
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    onClick={() => decideRequest(request.id, true)}
+                    disabled={request.kind === 'renewal' && !expiryDates[request.id]}
+                  >
+                    <Check className="w-4 h-4 mr-2" />
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => decideRequest(request.id, false)}>
+                    <X className="w-4 h-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {pendingRequests.length === 0 && (
+              <p className="text-sm text-muted-foreground">No pending requests.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Decided Requests</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {decidedRequests.map((request) => (
+              <div key={request.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+                <div className="space-y-1">
+                  {renderDetails(request)}
+                  {request.admin_message && (
+                    <p className="text-sm text-muted-foreground">Reply: {request.admin_message}</p>
+                  )}
+                </div>
+                <Badge variant={request.status === 'approved' ? 'default' : 'destructive'} className="capitalize">
+                  {request.status}
+                </Badge>
+              </div>
+            ))}
+            {decidedRequests.length === 0 && (
+              <p className="text-sm text-muted-foreground">No decided requests yet.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AccessRequestsTab;
@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronDown } from 'lucide-react';
+
+interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string;
+  entity: string;
+  entity_id: string | null;
+  before: Json | null;
+  after: Json | null;
+  created_at: string;
+}
+
+interface ActivityLogTabProps {
+  users: { id: string; email: string }[];
+}
+
+const ALL = 'all';
+const ENTITIES = ['users', 'subjects', 'chapters', 'notes', 'videos'];
+const PAGE_SIZE = 200;
+
+const ACTION_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  insert: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+};
+
+type Row = Record<string, Json | undefined>;
+
+const asRow = (value: Json | null): Row =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+// Human-readable name of the changed record, whichever table it came from
+const describeEntry = (entry: AuditEntry) => {
+  const row = { ...asRow(entry.before), ...asRow(entry.after) };
+  const label = row.email ?? row.name ?? row.title;
+  return typeof label === 'string' ? label : entry.entity_id;
+};
+
+const changedFields = (entry: AuditEntry) => {
+  const before = asRow(entry.before);
+  const after = asRow(entry.after);
+  return Object.keys(after).filter(key =>
+    key !== 'updated_at' && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+};
+
+const ActivityLogTab = ({ users }: ActivityLogTabProps) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState({ actor_id: ALL, entity: ALL, from: '', to: '' });
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (filters.actor_id !== ALL) query = query.eq('actor_id', filters.actor_id);
+      if (filters.entity !== ALL) query = query.eq('entity', filters.entity);
+      if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59`).toISOString());
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load activity",
+        variant: "destructive",
+      });
+    }
+  }, [filters, toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+        <CardDescription>
+          Every change to users, subjects, chapters, notes and videos. Entries cannot be edited or removed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div>
+            <Label htmlFor="activity-actor">Actor</Label>
+            <Select value={filters.actor_id} onValueChange={(value) => setFilters({...filters, actor_id: value})}>
+              <SelectTrigger id="activity-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actors</SelectItem>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="activity-entity">Entity</Label>
+            <Select value={filters.entity} onValueChange={(value) => setFilters({...filters, entity: value})}>
+              <SelectTrigger id="activity-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All entities</SelectItem>
+                {ENTITIES.map((entity) => (
+                  <SelectItem key={entity} value={entity} className="capitalize">
+                    {entity}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="activity-from">From</Label>
+            <Input
+              id="activity-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({...filters, from: e.target.value})}
+            />
+          </div>
+          <div>
+            <Label htmlFor="activity-to">To</Label>
+            <Input
+              id="activity-to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({...filters, to: e.target.value})}
+            />
+          </div>
+        </div>
+        {(filters.actor_id !== ALL || filters.entity !== ALL || filters.from || filters.to) && (
+          <Button variant="outline" size="sm" onClick={() => setFilters({ actor_id: ALL, entity: ALL, from: '', to: '' })}>
+            Clear filters
+          </Button>
+        )}
+
+        <div className="space-y-2">
+          {entries.map((entry) => {
+            const fields = entry.action === 'update' ? changedFields(entry) : [];
+
+            return (
+              <Collapsible key={entry.id} className="border rounded-lg">
+                <CollapsibleTrigger asChild>
+                  <button className="flex w-full items-center justify-between gap-4 p-4 text-left">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={ACTION_VARIANTS[entry.action]} className="capitalize">
+                          {entry.action}
+                        </Badge>
+                        <Badge variant="outline" className="capitalize">{entry.entity}</Badge>
+                        <span className="font-medium">{describeEntry(entry)}</span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {entry.actor_email || 'System'} · {new Date(entry.created_at).toLocaleString()}
+                        {fields.length > 0 && ` · changed ${fields.join(', ')}`}
+                      </p>
+                    </div>
+                    <ChevronDown className="w-4 h-4 shrink-0" />
+                  </button>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <div className="grid gap-4 px-4 pb-4 md:grid-cols-2">
+                    <div>
+                      <p className="text-sm font-medium mb-1">Before</p>
+                      <pre className="text-xs bg-muted rounded p-2 overflow-auto max-h-64">
+                        {entry.before ? JSON.stringify(entry.before, null, 2) : '—'}
+                      </pre>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium mb-1">After</p>
+                      <pre className="text-xs bg-muted rounded p-2 overflow-auto max-h-64">
+                        {entry.after ? JSON.stringify(entry.after, null, 2) : '—'}
+                      </pre>
+                    </div>
+                  </div>
+                </CollapsibleContent>
+              </Collapsible>
+            );
+          })}
+          {entries.length === 0 && (
+            <p className="text-sm text-muted-foreground">No activity matches these filters.</p>
+          )}
+          {entries.length === PAGE_SIZE && (
+            <p className="text-sm text-muted-foreground">
+              Showing the latest {PAGE_SIZE} entries. Narrow the filters to see older activity.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityLogTab;
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AUTO_APPROVAL_ROLES, AppRole } from '@/lib/roles';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface AutoApprovalRule {
+  id: string;
+  domain_pattern: string;
+  role: AppRole;
+  subject_ids: string[];
+  created_at: string;
+}
+
+interface AutoApprovalRulesTabProps {
+  subjects: { id: string; name: string }[];
+}
+
+// Mirrors the CHECK constraint on auto_approval_rules.domain_pattern
+const DOMAIN_PATTERN_REGEX = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+const normalizeDomainPattern = (value: string) => value.trim().toLowerCase().replace(/^@/, '');
+
+const AutoApprovalRulesTab = ({ subjects }: AutoApprovalRulesTabProps) => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AutoApprovalRule[]>([]);
+  const [newRule, setNewRule] = useState({ domain_pattern: '', role: 'learner' as AppRole, subject_ids: [] as string[] });
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('auto_approval_rules')
+        .select('*')
+        .order('domain_pattern');
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching auto approval rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load auto approval rules",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleSubject = (subjectId: string, checked: boolean) => {
+    setNewRule({
+      ...newRule,
+      subject_ids: checked
+        ? [...newRule.subject_ids, subjectId]
+        : newRule.subject_ids.filter(id => id !== subjectId),
+    });
+  };
+
+  const createRule = async () => {
+    const domainPattern = normalizeDomainPattern(newRule.domain_pattern);
+    if (!DOMAIN_PATTERN_REGEX.test(domainPattern)) {
+      toast({
+        title: "Error",
+        description: "Enter a domain like school.edu or *.school.edu",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('auto_approval_rules')
+        .insert([{ ...newRule, domain_pattern: domainPattern }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Auto approval rule created",
+      });
+
+      setNewRule({ domain_pattern: '', role: 'learner', subject_ids: [] });
+      fetchRules();
+    } catch (error) {
+      console.error('Error creating auto approval rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create rule. Each domain can only have one rule.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('auto_approval_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Auto approval rule deleted",
+      });
+
+      fetchRules();
+    } catch (error) {
+      console.error('Error deleting auto approval rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getSubjectName = (subjectId: string) =>
+    subjects.find(s => s.id === subjectId)?.name || 'Unknown Subject';
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Auto Approval Rule</CardTitle>
+          <CardDescription>
+            New sign-ups from a matching email domain get access as soon as they confirm their email.
+            Leave all subjects unchecked to grant every subject.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="rule-domain">Email domain</Label>
+              <Input
+                id="rule-domain"
+                value={newRule.domain_pattern}
+                onChange={(e) => setNewRule({...newRule, domain_pattern: e.target.value})}
+                placeholder="school.edu or *.school.edu"
+              />
+            </div>
+            <div>
+              <Label htmlFor="rule-role">Default role</Label>
+              <Select value={newRule.role} onValueChange={(value) => setNewRule({...newRule, role: value as AppRole})}>
+                <SelectTrigger id="rule-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_APPROVAL_ROLES.map((role) => (
+                    <SelectItem key={role} value={role} className="capitalize">
+                      {role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label>Subject grants</Label>
+            <div className="grid gap-2 mt-2 md:grid-cols-3">
+              {subjects.map((subject) => (
+                <div key={subject.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`rule-subject-${subject.id}`}
+                    checked={newRule.subject_ids.includes(subject.id)}
+                    onCheckedChange={(checked) => toggleSubject(subject.id, !!checked)}
+                  />
+                  <Label htmlFor={`rule-subject-${subject.id}`}>{subject.name}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <Button onClick={createRule}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Rule
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Existing Rules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium">@{rule.domain_pattern}</h3>
+                    <Badge variant="outline" className="capitalize">{rule.role}</Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {rule.subject_ids.length === 0 ? (
+                      <Badge variant="secondary">All subjects</Badge>
+                    ) : (
+                      rule.subject_ids.map((subjectId) => (
+                        <Badge key={subjectId} variant="secondary">{getSubjectName(subjectId)}</Badge>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <Button variant="destructive" size="sm" onClick={() => deleteRule(rule.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {rules.length === 0 && (
+              <p className="text-sm text-muted-foreground">No auto approval rules yet.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AutoApprovalRulesTab;
@@ -0,0 +1,269 @@
+import React, { useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { requestPdfTextExtraction, uploadPdfWithProgress } from '@/lib/storage';
+import { isPdfFile } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import { CheckCircle, RotateCcw, Upload, X } from 'lucide-react';
+
+type UploadStatus = 'pending' | 'uploading' | 'done' | 'error';
+
+interface UploadItem {
+  key: string;
+  file: File;
+  title: string;
+  status: UploadStatus;
+  progress: number;
+  error: string | null;
+  // Set once the file is in storage, so a retry only re-creates the note row
+  pdf_path: string | null;
+}
+
+interface BulkNoteUploadProps {
+  chapterOptions: { id: string; label: string }[];
+  onUploaded: () => void;
+}
+
+const titleFromFilename = (name: string) =>
+  name
+    .replace(/\.pdf$/i, '')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const BulkNoteUpload = ({ chapterOptions, onUploaded }: BulkNoteUploadProps) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [chapterId, setChapterId] = useState('');
+  const [chapterError, setChapterError] = useState<string | null>(null);
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const updateItem = (key: string, changes: Partial<UploadItem>) => {
+    setItems(current => current.map(item => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+
+    const added = Array.from(files).map((file): UploadItem => {
+      const valid = isPdfFile(file);
+      return {
+        key: `${file.name}-${file.lastModified}-${crypto.randomUUID()}`,
+        file,
+        title: titleFromFilename(file.name),
+        status: valid ? 'pending' : 'error',
+        progress: 0,
+        error: valid ? null : 'Not a PDF file',
+        pdf_path: null,
+      };
+    });
+
+    setItems(current => [...current, ...added]);
+  };
+
+  const uploadItem = async (item: UploadItem) => {
+    if (!item.title.trim()) {
+      updateItem(item.key, { status: 'error', error: 'Title is required' });
+      return false;
+    }
+
+    updateItem(item.key, { status: 'uploading', error: null });
+    try {
+      const pdfPath = item.pdf_path ?? await uploadPdfWithProgress(
+        item.file,
+        (progress) => updateItem(item.key, { progress })
+      );
+      updateItem(item.key, { pdf_path: pdfPath, progress: 100 });
+
+      const { data, error } = await supabase
+        .from('notes')
+        .insert([{ title: item.title.trim(), chapter_id: chapterId, pdf_path: pdfPath }])
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      requestPdfTextExtraction([data.id]);
+      updateItem(item.key, { status: 'done' });
+      return true;
+    } catch (error) {
+      console.error(`Error uploading ${item.file.name}:`, error);
+      updateItem(item.key, {
+        status: 'error',
+        error: (error as { message?: string }).message || 'Upload failed',
+      });
+      return false;
+    }
+  };
+
+  // Files are committed one by one so a bad file never aborts the rest of the batch
+  const uploadAll = async (targets: UploadItem[]) => {
+    if (!chapterId) {
+      setChapterError('Select a chapter');
+      return;
+    }
+    setChapterError(null);
+
+    setUploading(true);
+    let succeeded = 0;
+    for (const item of targets) {
+      if (await uploadItem(item)) succeeded++;
+    }
+    setUploading(false);
+
+    if (succeeded > 0) onUploaded();
+    toast({
+      title: succeeded === targets.length ? "Success" : "Upload finished with errors",
+      description: `${succeeded} of ${targets.length} notes uploaded as drafts`,
+      variant: succeeded === targets.length ? undefined : "destructive",
+    });
+  };
+
+  const pendingItems = items.filter(item => item.status === 'pending');
+  const retryableItems = items.filter(item => item.status === 'error' && isPdfFile(item.file));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upload Notes</CardTitle>
+        <CardDescription>
+          Drop one or more PDFs. Titles come from the file names and can be edited before uploading.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="bulk-note-chapter">Chapter</Label>
+          <Select value={chapterId} onValueChange={setChapterId}>
+            <SelectTrigger id="bulk-note-chapter">
+              <SelectValue placeholder="Select a chapter" />
+            </SelectTrigger>
+            <SelectContent>
+              {chapterOptions.map((chapter) => (
+                <SelectItem key={chapter.id} value={chapter.id}>
+                  {chapter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {chapterError && <p className="text-sm text-destructive mt-1">{chapterError}</p>}
+        </div>
+
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') inputRef.current?.click();
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          className={cn(
+            'flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed rounded-lg cursor-pointer text-muted-foreground transition-colors',
+            dragging && 'border-primary bg-primary/5'
+          )}
+        >
+          <Upload className="w-8 h-8" />
+          <p className="text-sm">Drag PDFs here or click to choose files</p>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".pdf"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+
+        {items.length > 0 && (
+          <div className="space-y-2">
+            {items.map((item) => (
+              <div key={item.key} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={item.title}
+                    onChange={(e) => updateItem(item.key, { title: e.target.value })}
+                    disabled={item.status === 'uploading' || item.status === 'done'}
+                    aria-label={`Title for ${item.file.name}`}
+                    className="h-8"
+                  />
+                  {item.status === 'done' && <CheckCircle className="w-4 h-4 text-green-600 shrink-0" />}
+                  {item.status === 'error' && isPdfFile(item.file) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => uploadAll([item])}
+                      disabled={uploading}
+                      aria-label={`Retry ${item.file.name}`}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {item.status !== 'uploading' && item.status !== 'done' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setItems(current => current.filter(i => i.key !== item.key))}
+                      aria-label={`Remove ${item.file.name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="truncate">{item.file.name}</span>
+                  {item.error && <span className="text-destructive">{item.error}</span>}
+                </div>
+                {(item.status === 'uploading' || item.status === 'done') && (
+                  <Progress value={item.progress} className="h-2" />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => uploadAll(pendingItems)} disabled={uploading || pendingItems.length === 0}>
+            <Upload className="w-4 h-4 mr-2" />
+            {uploading ? 'Uploading...' : `Upload ${pendingItems.length} ${pendingItems.length === 1 ? 'Note' : 'Notes'}`}
+          </Button>
+          {retryableItems.length > 0 && (
+            <Button variant="outline" onClick={() => uploadAll(retryableItems)} disabled={uploading}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retry Failed ({retryableItems.length})
+            </Button>
+          )}
+          {items.some(item => item.status === 'done') && (
+            <Button
+              variant="ghost"
+              onClick={() => setItems(current => current.filter(item => item.status !== 'done'))}
+              disabled={uploading}
+            >
+              Clear Uploaded
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkNoteUpload;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Button, buttonVariants } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Trash2 } from 'lucide-react';
+
+interface ConfirmDeleteButtonProps {
+  title: string;
+  description: string;
+  confirmLabel?: string;
+  triggerLabel?: string;
+  onConfirm: () => void;
+}
+
+const ConfirmDeleteButton = ({
+  title,
+  description,
+  confirmLabel = 'Move to Trash',
+  triggerLabel,
+  onConfirm,
+}: ConfirmDeleteButtonProps) => (
+  <AlertDialog>
+    <AlertDialogTrigger asChild>
+      <Button variant="destructive" size="sm" aria-label={triggerLabel ? undefined : title}>
+        <Trash2 className={triggerLabel ? 'w-4 h-4 mr-2' : 'w-4 h-4'} />
+        {triggerLabel}
+      </Button>
+    </AlertDialogTrigger>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>{title}</AlertDialogTitle>
+        <AlertDialogDescription>{description}</AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={onConfirm}>
+          {confirmLabel}
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default ConfirmDeleteButton;
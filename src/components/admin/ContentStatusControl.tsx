@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { CONTENT_STATUSES, ContentStatus, Releasable } from '@/lib/publishing';
+
+interface ContentStatusControlProps {
+  table: 'subjects' | 'chapters' | 'notes' | 'videos';
+  item: Releasable & { id: string; title?: string; name?: string };
+  onSaved: () => void;
+}
+
+const STATUS_LABELS: Record<ContentStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+};
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (date: string | null) => (date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : '');
+
+const ContentStatusControl = ({ table, item, onSaved }: ContentStatusControlProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ContentStatus>(item.status);
+  const [publishAt, setPublishAt] = useState(toLocalInput(item.publish_at));
+
+  useEffect(() => {
+    setStatus(item.status);
+    setPublishAt(toLocalInput(item.publish_at));
+  }, [item.status, item.publish_at]);
+
+  const save = async (nextStatus: ContentStatus, nextPublishAt: string) => {
+    // A schedule is only saved once it has a date
+    if (nextStatus === 'scheduled' && !nextPublishAt) return;
+
+    try {
+      const { error } = await supabase
+        .from(table)
+        .update({
+          status: nextStatus,
+          publish_at: nextStatus === 'scheduled' ? new Date(nextPublishAt).toISOString() : null,
+        })
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `"${item.title ?? item.name}" is now ${nextStatus === 'scheduled'
+          ? `scheduled for ${format(new Date(nextPublishAt), 'PP p')}`
+          : STATUS_LABELS[nextStatus].toLowerCase()}`,
+      });
+
+      onSaved();
+    } catch (error) {
+      console.error('Error updating status:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update status",
+        variant: "destructive",
+      });
+      setStatus(item.status);
+      setPublishAt(toLocalInput(item.publish_at));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={status}
+        onValueChange={(value) => {
+          const next = value as ContentStatus;
+          setStatus(next);
+          save(next, publishAt);
+        }}
+      >
+        <SelectTrigger className="w-32 h-9" aria-label="Status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CONTENT_STATUSES.map((value) => (
+            <SelectItem key={value} value={value}>
+              {STATUS_LABELS[value]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {status === 'scheduled' && (
+        <Input
+          type="datetime-local"
+          value={publishAt}
+          onChange={(e) => setPublishAt(e.target.value)}
+          onBlur={() => {
+            if (publishAt !== toLocalInput(item.publish_at)) save('scheduled', publishAt);
+          }}
+          className="w-52 h-9"
+          aria-label="Publish at"
+        />
+      )}
+    </div>
+  );
+};
+
+export default ContentStatusControl;
@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { CSV_COLUMNS, CourseImport, ExistingCourse, PlanAction, buildImportPlan, parseCourseFile } from '@/lib/course-import';
+import { cn } from '@/lib/utils';
+import { Upload } from 'lucide-react';
+
+interface CourseImportTabProps {
+  existing: ExistingCourse;
+  onImported: () => void;
+}
+
+const ACTION_LABELS: Record<PlanAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+};
+
+const ACTION_VARIANTS: Record<PlanAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  unchanged: 'outline',
+  duplicate: 'outline',
+  invalid: 'destructive',
+};
+
+const CourseImportTab = ({ existing, onImported }: CourseImportTabProps) => {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [course, setCourse] = useState<CourseImport | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // Recomputed when the admin data reloads, so the preview never goes stale
+  const plan = useMemo(() => (course ? buildImportPlan(course, existing) : null), [course, existing]);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setFileName(file.name);
+    setCourse(null);
+    setParseError(null);
+    try {
+      setCourse(parseCourseFile(file.name, await file.text()));
+    } catch (error) {
+      setParseError((error as Error).message);
+    }
+  };
+
+  const reset = () => {
+    setFileName('');
+    setCourse(null);
+    setParseError(null);
+  };
+
+  const runImport = async () => {
+    if (!plan) return;
+
+    setImporting(true);
+    try {
+      const { data, error } = await supabase.rpc('import_course', {
+        p_course: plan.payload as Json,
+      });
+
+      if (error) throw error;
+
+      const result = data as { created: number; updated: number };
+      toast({
+        title: "Success",
+        description: `Import finished: ${result.created} created, ${result.updated} updated`,
+      });
+
+      reset();
+      onImported();
+    } catch (error) {
+      console.error('Error importing course:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to import course",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const changes = plan ? plan.counts.create + plan.counts.update : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Course</CardTitle>
+        <CardDescription>
+          Upload a CSV or JSON file describing subjects, chapters, videos and notes. Nothing is saved until you
+          confirm the preview, and the import either completes in full or not at all.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 text-sm text-muted-foreground">
+          <p>
+            CSV files need a header row with the columns{' '}
+            <code className="text-foreground">{CSV_COLUMNS.join(', ')}</code>. Use one row per video or note; the{' '}
+            <code className="text-foreground">type</code> column is <code className="text-foreground">video</code> or{' '}
+            <code className="text-foreground">note</code>, and <code className="text-foreground">url</code> holds the
+            video link (YouTube, Vimeo or an MP4 in the videos bucket) or the path of a PDF already in storage. The
+            optional <code className="text-foreground">sections</code> column sets a video's outline, one{' '}
+            <code className="text-foreground">14:32 Title</code> line per section.
+          </p>
+          <p>
+            JSON files contain{' '}
+            <code className="text-foreground">{'{ "subjects": [{ "name", "chapters": [{ "title", "videos": [{ "title", "source_url", "sections": [{ "title", "start_seconds" }] }], "notes": [{ "title", "pdf_path" }] }] }] }'}</code>.
+            Videos listed without sections keep their current outline.
+          </p>
+          <p>
+            Existing subjects, chapters, videos and notes with the same name are updated instead of duplicated. New
+            ones start as drafts.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="course-import-file">File</Label>
+          <Input
+            id="course-import-file"
+            type="file"
+            accept=".csv,.json"
+            onChange={(e) => {
+              readFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          {fileName && <p className="text-sm text-muted-foreground mt-1">{fileName}</p>}
+          {parseError && <p className="text-sm text-destructive mt-1">{parseError}</p>}
+        </div>
+
+        {plan && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(ACTION_LABELS) as PlanAction[]).map((action) => (
+                <Badge
+                  key={action}
+                  variant={ACTION_VARIANTS[action]}
+                  className={cn(action === 'duplicate' && 'border-amber-500 text-amber-600')}
+                >
+                  {plan.counts[action]} {ACTION_LABELS[action].toLowerCase()}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="border rounded-lg divide-y">
+              {plan.rows.map((row) => (
+                <div
+                  key={row.key}
+                  className={cn(
+                    'flex flex-wrap items-center gap-2 py-2 pr-4',
+                    row.action === 'duplicate' && 'bg-amber-50',
+                    row.action === 'invalid' && 'bg-destructive/5'
+                  )}
+                  style={{ paddingLeft: `${1 + row.depth * 1.5}rem` }}
+                >
+                  <Badge variant="outline" className="capitalize">{row.kind}</Badge>
+                  <span className={cn(row.depth === 0 && 'font-medium')}>{row.label}</span>
+                  <Badge
+                    variant={ACTION_VARIANTS[row.action]}
+                    className={cn(row.action === 'duplicate' && 'border-amber-500 text-amber-600')}
+                  >
+                    {ACTION_LABELS[row.action]}
+                  </Badge>
+                  {row.message && <span className="text-sm text-muted-foreground">{row.message}</span>}
+                </div>
+              ))}
+            </div>
+
+            {plan.counts.invalid > 0 && (
+              <p className="text-sm text-destructive">
+                Fix the invalid rows in the file and upload it again before importing.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={runImport} disabled={importing || plan.counts.invalid > 0 || changes === 0}>
+                <Upload className="w-4 h-4 mr-2" />
+                {importing ? 'Importing...' : `Import ${changes} ${changes === 1 ? 'Change' : 'Changes'}`}
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={importing}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CourseImportTab;
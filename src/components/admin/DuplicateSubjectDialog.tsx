@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { PDF_BUCKET, copyPdf } from '@/lib/storage';
+import { Copy } from 'lucide-react';
+
+type PdfMode = 'share' | 'copy';
+
+interface DuplicateSubjectDialogProps {
+  subject: { id: string; name: string };
+  // Live notes of the subject, for copying their PDFs
+  notes: { id: string; pdf_path: string }[];
+  onDuplicated: () => void;
+}
+
+const DuplicateSubjectDialog = ({ subject, notes, onDuplicated }: DuplicateSubjectDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [pdfMode, setPdfMode] = useState<PdfMode>('share');
+  const [duplicating, setDuplicating] = useState(false);
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setName(`${subject.name} (Copy)`);
+      setNameError(null);
+      setPdfMode('share');
+    }
+    setOpen(next);
+  };
+
+  const duplicateSubject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setNameError('Subject name is required');
+      return;
+    }
+    setNameError(null);
+
+    setDuplicating(true);
+    const copiedPaths: Record<string, string> = {};
+    try {
+      if (pdfMode === 'copy') {
+        for (const note of notes) {
+          copiedPaths[note.id] = await copyPdf(note.pdf_path);
+        }
+      }
+
+      const { error } = await supabase.rpc('duplicate_subject', {
+        p_subject_id: subject.id,
+        p_name: name.trim(),
+        p_pdf_paths: copiedPaths,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `"${name.trim()}" created as a draft`,
+      });
+
+      setOpen(false);
+      onDuplicated();
+    } catch (error) {
+      console.error('Error duplicating subject:', error);
+      const paths = Object.values(copiedPaths);
+      if (paths.length > 0) await supabase.storage.from(PDF_BUCKET).remove(paths);
+      toast({
+        title: "Error",
+        description: "Failed to duplicate subject",
+        variant: "destructive",
+      });
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Duplicate ${subject.name}`}>
+          <Copy className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Duplicate subject</DialogTitle>
+          <DialogDescription>
+            Copies the subject with all of its chapters, notes and videos. The copy starts as an unpublished
+            draft that only content managers can see.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={duplicateSubject} className="space-y-4">
+          <div>
+            <Label htmlFor={`duplicate-subject-name-${subject.id}`}>Subject Name</Label>
+            <Input
+              id={`duplicate-subject-name-${subject.id}`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            {nameError && <p className="text-sm text-destructive mt-1">{nameError}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label>PDFs</Label>
+            <RadioGroup value={pdfMode} onValueChange={(value) => setPdfMode(value as PdfMode)}>
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="share" id={`duplicate-share-${subject.id}`} className="mt-1" />
+                <Label htmlFor={`duplicate-share-${subject.id}`} className="font-normal">
+                  Reuse the same files
+                  <span className="block text-sm text-muted-foreground">
+                    No extra storage. Files stay until no note uses them.
+                  </span>
+                </Label>
+              </div>
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="copy" id={`duplicate-copy-${subject.id}`} className="mt-1" />
+                <Label htmlFor={`duplicate-copy-${subject.id}`} className="font-normal">
+                  Copy the files
+                  <span className="block text-sm text-muted-foreground">
+                    {notes.length} {notes.length === 1 ? 'PDF' : 'PDFs'} copied so each subject has its own.
+                  </span>
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={duplicating}>
+              {duplicating ? 'Duplicating...' : 'Duplicate'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateSubjectDialog;
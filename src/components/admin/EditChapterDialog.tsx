@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { FieldErrors, hasErrors } from '@/lib/validation';
+import { Pencil } from 'lucide-react';
+
+interface EditChapterDialogProps {
+  chapter: { id: string; subject_id: string; title: string; description: string | null };
+  subjects: { id: string; name: string }[];
+  onSaved: () => void;
+}
+
+type ChapterField = 'title' | 'subject_id';
+
+const EditChapterDialog = ({ chapter, subjects, onSaved }: EditChapterDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState({ title: '', description: '', subject_id: '' });
+  const [errors, setErrors] = useState<FieldErrors<ChapterField>>({});
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setForm({
+        title: chapter.title,
+        description: chapter.description || '',
+        subject_id: chapter.subject_id,
+      });
+      setErrors({});
+    }
+    setOpen(next);
+  };
+
+  const validate = () => {
+    const nextErrors: FieldErrors<ChapterField> = {
+      title: form.title.trim() ? undefined : 'Chapter title is required',
+      subject_id: form.subject_id ? undefined : 'Select a subject',
+    };
+    setErrors(nextErrors);
+    return !hasErrors(nextErrors);
+  };
+
+  const saveChapter = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('chapters')
+        .update({
+          title: form.title.trim(),
+          description: form.description.trim() || null,
+          subject_id: form.subject_id,
+        })
+        .eq('id', chapter.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Chapter updated successfully",
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error updating chapter:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update chapter",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Edit ${chapter.title}`}>
+          <Pencil className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit chapter</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={saveChapter} className="space-y-4">
+          <div>
+            <Label htmlFor={`edit-chapter-subject-${chapter.id}`}>Subject</Label>
+            <Select value={form.subject_id} onValueChange={(value) => setForm({...form, subject_id: value})}>
+              <SelectTrigger id={`edit-chapter-subject-${chapter.id}`}>
+                <SelectValue placeholder="Select a subject" />
+              </SelectTrigger>
+              <SelectContent>
+                {subjects.map((subject) => (
+                  <SelectItem key={subject.id} value={subject.id}>
+                    {subject.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.subject_id && <p className="text-sm text-destructive mt-1">{errors.subject_id}</p>}
+          </div>
+          <div>
+            <Label htmlFor={`edit-chapter-title-${chapter.id}`}>Chapter Title</Label>
+            <Input
+              id={`edit-chapter-title-${chapter.id}`}
+              value={form.title}
+              onChange={(e) => setForm({...form, title: e.target.value})}
+            />
+            {errors.title && <p className="text-sm text-destructive mt-1">{errors.title}</p>}
+          </div>
+          <div>
+            <Label htmlFor={`edit-chapter-description-${chapter.id}`}>Description</Label>
+            <Textarea
+              id={`edit-chapter-description-${chapter.id}`}
+              value={form.description}
+              onChange={(e) => setForm({...form, description: e.target.value})}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditChapterDialog;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { PDF_BUCKET, requestPdfTextExtraction } from '@/lib/storage';
+import { FieldErrors, hasErrors, isPdfFile } from '@/lib/validation';
+import { Pencil } from 'lucide-react';
+
+interface EditNoteDialogProps {
+  note: { id: string; title: string; pdf_path: string; chapter_id: string };
+  chapterOptions: { id: string; label: string }[];
+  onSaved: () => void;
+}
+
+type NoteField = 'title' | 'chapter_id' | 'file';
+
+const EditNoteDialog = ({ note, chapterOptions, onSaved }: EditNoteDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState({ title: '', chapter_id: '', file: null as File | null });
+  const [errors, setErrors] = useState<FieldErrors<NoteField>>({});
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setForm({ title: note.title, chapter_id: note.chapter_id, file: null });
+      setErrors({});
+    }
+    setOpen(next);
+  };
+
+  const validate = () => {
+    const nextErrors: FieldErrors<NoteField> = {
+      title: form.title.trim() ? undefined : 'Note title is required',
+      chapter_id: form.chapter_id ? undefined : 'Select a chapter',
+      file: !form.file || isPdfFile(form.file) ? undefined : 'Choose a PDF file',
+    };
+    setErrors(nextErrors);
+    return !hasErrors(nextErrors);
+  };
+
+  const saveNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setSaving(true);
+    try {
+      let pdfPath = note.pdf_path;
+
+      // Upload the replacement under a new name so the row keeps its id and progress.
+      // A database trigger queues the previous file for removal.
+      if (form.file) {
+        const { data: uploadData, error: uploadError } = await supabase.storage
+          .from(PDF_BUCKET)
+          .upload(`${Date.now()}.pdf`, form.file);
+
+        if (uploadError) throw uploadError;
+        pdfPath = uploadData.path;
+      }
+
+      const { error } = await supabase
+        .from('notes')
+        .update({
+          title: form.title.trim(),
+          chapter_id: form.chapter_id,
+          pdf_path: pdfPath,
+        })
+        .eq('id', note.id);
+
+      if (error) throw error;
+      if (form.file) requestPdfTextExtraction([note.id]);
+
+      toast({
+        title: "Success",
+        description: form.file ? "Note and PDF updated successfully" : "Note updated successfully",
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error updating note:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update note",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Edit ${note.title}`}>
+          <Pencil className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit note</DialogTitle>
+          <DialogDescription>
+            Replacing the PDF keeps learners' progress on this note.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={saveNote} className="space-y-4">
+          <div>
+            <Label htmlFor={`edit-note-title-${note.id}`}>Note Title</Label>
+            <Input
+              id={`edit-note-title-${note.id}`}
+              value={form.title}
+              onChange={(e) => setForm({...form, title: e.target.value})}
+            />
+            {errors.title && <p className="text-sm text-destructive mt-1">{errors.title}</p>}
+          </div>
+          <div>
+            <Label htmlFor={`edit-note-chapter-${note.id}`}>Chapter</Label>
+            <Select value={form.chapter_id} onValueChange={(value) => setForm({...form, chapter_id: value})}>
+              <SelectTrigger id={`edit-note-chapter-${note.id}`}>
+                <SelectValue placeholder="Select a chapter" />
+              </SelectTrigger>
+              <SelectContent>
+                {chapterOptions.map((chapter) => (
+                  <SelectItem key={chapter.id} value={chapter.id}>
+                    {chapter.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.chapter_id && <p className="text-sm text-destructive mt-1">{errors.chapter_id}</p>}
+          </div>
+          <div>
+            <Label htmlFor={`edit-note-file-${note.id}`}>Replace PDF</Label>
+            <Input
+              id={`edit-note-file-${note.id}`}
+              type="file"
+              accept=".pdf"
+              onChange={(e) => setForm({...form, file: e.target.files?.[0] || null})}
+            />
+            {errors.file && <p className="text-sm text-destructive mt-1">{errors.file}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditNoteDialog;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { FieldErrors, hasErrors, isHttpUrl } from '@/lib/validation';
+import { Pencil } from 'lucide-react';
+
+interface EditSubjectDialogProps {
+  subject: { id: string; name: string; description: string | null; image_url: string | null };
+  onSaved: () => void;
+}
+
+type SubjectField = 'name' | 'image_url';
+
+const EditSubjectDialog = ({ subject, onSaved }: EditSubjectDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState({ name: '', description: '', image_url: '' });
+  const [errors, setErrors] = useState<FieldErrors<SubjectField>>({});
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setForm({
+        name: subject.name,
+        description: subject.description || '',
+        image_url: subject.image_url || '',
+      });
+      setErrors({});
+    }
+    setOpen(next);
+  };
+
+  const validate = () => {
+    const nextErrors: FieldErrors<SubjectField> = {
+      name: form.name.trim() ? undefined : 'Subject name is required',
+      image_url: !form.image_url.trim() || isHttpUrl(form.image_url.trim())
+        ? undefined
+        : 'Enter a full http(s) URL',
+    };
+    setErrors(nextErrors);
+    return !hasErrors(nextErrors);
+  };
+
+  const saveSubject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('subjects')
+        .update({
+          name: form.name.trim(),
+          description: form.description.trim() || null,
+          image_url: form.image_url.trim() || null,
+        })
+        .eq('id', subject.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Subject updated successfully",
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error updating subject:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update subject",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Edit ${subject.name}`}>
+          <Pencil className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit subject</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={saveSubject} className="space-y-4">
+          <div>
+            <Label htmlFor={`edit-subject-name-${subject.id}`}>Subject Name</Label>
+            <Input
+              id={`edit-subject-name-${subject.id}`}
+              value={form.name}
+              onChange={(e) => setForm({...form, name: e.target.value})}
+            />
+            {errors.name && <p className="text-sm text-destructive mt-1">{errors.name}</p>}
+          </div>
+          <div>
+            <Label htmlFor={`edit-subject-description-${subject.id}`}>Description</Label>
+            <Textarea
+              id={`edit-subject-description-${subject.id}`}
+              value={form.description}
+              onChange={(e) => setForm({...form, description: e.target.value})}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`edit-subject-image-${subject.id}`}>Image URL</Label>
+            <Input
+              id={`edit-subject-image-${subject.id}`}
+              value={form.image_url}
+              onChange={(e) => setForm({...form, image_url: e.target.value})}
+              placeholder="Leave empty for the default image"
+            />
+            {errors.image_url && <p className="text-sm text-destructive mt-1">{errors.image_url}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditSubjectDialog;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import VideoFileUpload from '@/components/admin/VideoFileUpload';
+import { useToast } from '@/hooks/use-toast';
+import { FieldErrors, hasErrors } from '@/lib/validation';
+import { VIDEO_SOURCE_HINT, isVideoSourceUrl, videoSourceColumns } from '@/lib/video-source';
+import { Pencil } from 'lucide-react';
+
+interface EditVideoDialogProps {
+  video: { id: string; title: string; source_url: string; chapter_id: string };
+  chapterOptions: { id: string; label: string }[];
+  onSaved: () => void;
+}
+
+type VideoField = 'title' | 'source_url' | 'chapter_id';
+
+const EditVideoDialog = ({ video, chapterOptions, onSaved }: EditVideoDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState({ title: '', source_url: '', chapter_id: '' });
+  const [errors, setErrors] = useState<FieldErrors<VideoField>>({});
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setForm({ title: video.title, source_url: video.source_url, chapter_id: video.chapter_id });
+      setErrors({});
+    }
+    setOpen(next);
+  };
+
+  const validate = () => {
+    const nextErrors: FieldErrors<VideoField> = {
+      title: form.title.trim() ? undefined : 'Video title is required',
+      source_url: isVideoSourceUrl(form.source_url) ? undefined : VIDEO_SOURCE_HINT,
+      chapter_id: form.chapter_id ? undefined : 'Select a chapter',
+    };
+    setErrors(nextErrors);
+    return !hasErrors(nextErrors);
+  };
+
+  const saveVideo = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('videos')
+        .update({
+          title: form.title.trim(),
+          chapter_id: form.chapter_id,
+          ...videoSourceColumns(form.source_url),
+        })
+        .eq('id', video.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Video updated successfully",
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error updating video:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update video",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Edit ${video.title}`}>
+          <Pencil className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit video</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={saveVideo} className="space-y-4">
+          <div>
+            <Label htmlFor={`edit-video-title-${video.id}`}>Video Title</Label>
+            <Input
+              id={`edit-video-title-${video.id}`}
+              value={form.title}
+              onChange={(e) => setForm({...form, title: e.target.value})}
+            />
+            {errors.title && <p className="text-sm text-destructive mt-1">{errors.title}</p>}
+          </div>
+          <div>
+            <Label htmlFor={`edit-video-chapter-${video.id}`}>Chapter</Label>
+            <Select value={form.chapter_id} onValueChange={(value) => setForm({...form, chapter_id: value})}>
+              <SelectTrigger id={`edit-video-chapter-${video.id}`}>
+                <SelectValue placeholder="Select a chapter" />
+              </SelectTrigger>
+              <SelectContent>
+                {chapterOptions.map((chapter) => (
+                  <SelectItem key={chapter.id} value={chapter.id}>
+                    {chapter.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.chapter_id && <p className="text-sm text-destructive mt-1">{errors.chapter_id}</p>}
+          </div>
+          <div>
+            <Label htmlFor={`edit-video-url-${video.id}`}>Video URL</Label>
+            <Input
+              id={`edit-video-url-${video.id}`}
+              value={form.source_url}
+              onChange={(e) => setForm({...form, source_url: e.target.value})}
+            />
+            <div className="mt-2">
+              <VideoFileUpload onUploaded={(url) => setForm(current => ({...current, source_url: url}))} />
+            </div>
+            {errors.source_url && <p className="text-sm text-destructive mt-1">{errors.source_url}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditVideoDialog;
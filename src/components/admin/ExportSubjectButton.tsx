@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { exportSubjectArchive } from '@/lib/course-archive';
+import { Download } from 'lucide-react';
+
+interface ExportSubjectButtonProps {
+  subject: { id: string; name: string };
+}
+
+const ExportSubjectButton = ({ subject }: ExportSubjectButtonProps) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const exportSubject = async () => {
+    setExporting(true);
+    try {
+      await exportSubjectArchive(subject.id);
+    } catch (error) {
+      console.error('Error exporting subject:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to export subject",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={exportSubject}
+      disabled={exporting}
+      aria-label={`Export ${subject.name}`}
+    >
+      <Download className="w-4 h-4" />
+    </Button>
+  );
+};
+
+export default ExportSubjectButton;
@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useToast } from '@/hooks/use-toast';
+import { expiryLabel, isExpired } from '@/lib/access';
+import { ChevronDown, Copy, Plus, Trash2 } from 'lucide-react';
+
+interface InviteRedemption {
+  id: string;
+  redeemed_at: string;
+  users: { email: string } | null;
+}
+
+interface InviteCode {
+  id: string;
+  code: string;
+  max_uses: number;
+  expires_at: string | null;
+  subject_id: string | null;
+  created_at: string;
+  invite_redemptions: InviteRedemption[];
+}
+
+interface InviteCodesTabProps {
+  subjects: { id: string; name: string }[];
+}
+
+const ALL_SUBJECTS = 'all';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes survive being read aloud
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const generateCode = () =>
+  Array.from(crypto.getRandomValues(new Uint32Array(CODE_LENGTH)))
+    .map(n => CODE_ALPHABET[n % CODE_ALPHABET.length])
+    .join('');
+
+const InviteCodesTab = ({ subjects }: InviteCodesTabProps) => {
+  const { userData } = useAuth();
+  const { toast } = useToast();
+  const [inviteCodes, setInviteCodes] = useState<InviteCode[]>([]);
+  const [newInvite, setNewInvite] = useState({ code: '', max_uses: '1', expires_at: '', subject_id: ALL_SUBJECTS });
+
+  useEffect(() => {
+    fetchInviteCodes();
+  }, []);
+
+  const fetchInviteCodes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invite_codes')
+        .select('*, invite_redemptions(id, redeemed_at, users(email))')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInviteCodes((data || []) as InviteCode[]);
+    } catch (error) {
+      console.error('Error fetching invite codes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load invite codes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createInviteCode = async () => {
+    const maxUses = parseInt(newInvite.max_uses, 10);
+    if (!maxUses || maxUses < 1) {
+      toast({
+        title: "Error",
+        description: "Usage limit must be at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const code = (newInvite.code.trim() || generateCode()).toUpperCase();
+
+    try {
+      const { error } = await supabase
+        .from('invite_codes')
+        .insert([{
+          code,
+          max_uses: maxUses,
+          expires_at: newInvite.expires_at ? new Date(`${newInvite.expires_at}T23:59:59`).toISOString() : null,
+          subject_id: newInvite.subject_id === ALL_SUBJECTS ? null : newInvite.subject_id,
+          created_by: userData?.id,
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Invite code ${code} created`,
+      });
+
+      setNewInvite({ code: '', max_uses: '1', expires_at: '', subject_id: ALL_SUBJECTS });
+      fetchInviteCodes();
+    } catch (error) {
+      console.error('Error creating invite code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create invite code. Codes must be unique and at least 4 characters.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteInviteCode = async (inviteCodeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('invite_codes')
+        .delete()
+        .eq('id', inviteCodeId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Invite code deleted",
+      });
+
+      fetchInviteCodes();
+    } catch (error) {
+      console.error('Error deleting invite code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete invite code",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyCode = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast({
+      title: "Copied",
+      description: `${code} copied to clipboard`,
+    });
+  };
+
+  const getScopeName = (subjectId: string | null) =>
+    subjectId ? subjects.find(s => s.id === subjectId)?.name || 'Unknown Subject' : 'All subjects';
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Invite Code</CardTitle>
+          <CardDescription>
+            Students enter the code on their Access Pending screen to unlock access.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="invite-code">Code</Label>
+              <Input
+                id="invite-code"
+                value={newInvite.code}
+                onChange={(e) => setNewInvite({...newInvite, code: e.target.value.toUpperCase()})}
+                placeholder="Leave empty to generate"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invite-scope">Subject scope</Label>
+              <Select value={newInvite.subject_id} onValueChange={(value) => setNewInvite({...newInvite, subject_id: value})}>
+                <SelectTrigger id="invite-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SUBJECTS}>All subjects</SelectItem>
+                  {subjects.map((subject) => (
+                    <SelectItem key={subject.id} value={subject.id}>
+                      {subject.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="invite-max-uses">Usage limit</Label>
+              <Input
+                id="invite-max-uses"
+                type="number"
+                min={1}
+                value={newInvite.max_uses}
+                onChange={(e) => setNewInvite({...newInvite, max_uses: e.target.value})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="invite-expires">Expires on</Label>
+              <Input
+                id="invite-expires"
+                type="date"
+                value={newInvite.expires_at}
+                onChange={(e) => setNewInvite({...newInvite, expires_at: e.target.value})}
+              />
+            </div>
+          </div>
+          <Button onClick={createInviteCode}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Invite Code
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Existing Invite Codes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {inviteCodes.map((invite) => {
+              const uses = invite.invite_redemptions.length;
+              return (
+                <Collapsible key={invite.id} className="p-4 border rounded-lg">
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h3 className="font-mono font-medium">{invite.code}</h3>
+                        <Badge variant={uses >= invite.max_uses ? 'destructive' : 'secondary'}>
+                          {uses} / {invite.max_uses} used
+                        </Badge>
+                        {invite.expires_at && (
+                          <Badge variant={isExpired(invite.expires_at) ? 'destructive' : 'outline'}>
+                            {expiryLabel(invite.expires_at)}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Scope: {getScopeName(invite.subject_id)}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <CollapsibleTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={uses === 0}>
+                          History
+                          <ChevronDown className="w-4 h-4 ml-1" />
+                        </Button>
+                      </CollapsibleTrigger>
+                      <Button variant="outline" size="sm" onClick={() => copyCode(invite.code)}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => deleteInviteCode(invite.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <CollapsibleContent className="mt-4 space-y-2">
+                    {invite.invite_redemptions.map((redemption) => (
+                      <div key={redemption.id} className="flex justify-between text-sm">
+                        <span>{redemption.users?.email ?? 'Deleted user'}</span>
+                        <span className="text-muted-foreground">
+                          {new Date(redemption.redeemed_at).toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
+                  </CollapsibleContent>
+                </Collapsible>
+              );
+            })}
+            {inviteCodes.length === 0 && (
+              <p className="text-sm text-muted-foreground">No invite codes yet.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default InviteCodesTab;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { CourseArchive, readCourseArchive, restoreCourseArchive } from '@/lib/course-archive';
+import { RotateCcw } from 'lucide-react';
+
+interface RestoreArchiveCardProps {
+  subjects: { name: string }[];
+  onRestored: () => void;
+}
+
+const RestoreArchiveCard = ({ subjects, onRestored }: RestoreArchiveCardProps) => {
+  const { toast } = useToast();
+  const [archive, setArchive] = useState<CourseArchive | null>(null);
+  const [name, setName] = useState('');
+  const [readError, setReadError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setArchive(null);
+    setReadError(null);
+    try {
+      const loaded = await readCourseArchive(file);
+      setArchive(loaded);
+      setName(loaded.manifest.subject.name);
+    } catch (error) {
+      setReadError((error as Error).message);
+    }
+  };
+
+  const restore = async () => {
+    if (!archive || !name.trim()) return;
+
+    setProgress({ done: 0, total: 0 });
+    try {
+      await restoreCourseArchive(archive, name.trim(), (done, total) => setProgress({ done, total }));
+
+      toast({
+        title: "Success",
+        description: `"${name.trim()}" restored`,
+      });
+
+      setArchive(null);
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring archive:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to restore archive",
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const chapters = archive?.manifest.subject.chapters ?? [];
+  const noteCount = chapters.reduce((total, c) => total + c.notes.length, 0);
+  const videoCount = chapters.reduce((total, c) => total + c.videos.length, 0);
+  const nameTaken = subjects.some(s => s.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Restore Archive</CardTitle>
+        <CardDescription>
+          Recreate a subject from a ZIP made with the export button on the Subjects tab. The restored copy gets new
+          ids, keeps the archived order of chapters, notes and videos, and starts as a draft.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="restore-archive-file">Archive</Label>
+          <Input
+            id="restore-archive-file"
+            type="file"
+            accept=".zip"
+            disabled={!!progress}
+            onChange={(e) => {
+              readFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          {readError && <p className="text-sm text-destructive mt-1">{readError}</p>}
+        </div>
+
+        {archive && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Exported {new Date(archive.manifest.exported_at).toLocaleString()} · {chapters.length} chapters ·{' '}
+              {noteCount} notes · {videoCount} videos
+            </p>
+            <div>
+              <Label htmlFor="restore-archive-name">Subject Name</Label>
+              <Input
+                id="restore-archive-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={!!progress}
+              />
+              {!name.trim() && <p className="text-sm text-destructive mt-1">Name is required</p>}
+              {nameTaken && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  A subject with this name already exists. Restoring creates a separate copy.
+                </p>
+              )}
+            </div>
+            {progress && progress.total > 0 && (
+              <div className="space-y-1">
+                <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  Uploaded {progress.done} of {progress.total} PDFs
+                </p>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={restore} disabled={!!progress || !name.trim()}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                {progress ? 'Restoring...' : 'Restore Subject'}
+              </Button>
+              <Button variant="outline" onClick={() => setArchive(null)} disabled={!!progress}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RestoreArchiveCard;
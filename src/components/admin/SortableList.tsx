@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { GripVertical } from 'lucide-react';
+
+interface SortableListProps<T extends { id: string }> {
+  items: T[];
+  onReorder: (items: T[]) => void;
+  renderItem: (item: T) => React.ReactNode;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// Vertical list reordered with native HTML5 drag and drop via the grip handle
+const SortableList = <T extends { id: string }>({ items, onReorder, renderItem }: SortableListProps<T>) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const resetDrag = () => {
+    setDraggingId(null);
+    setOverId(null);
+  };
+
+  const dropOn = (targetId: string) => {
+    const from = items.findIndex(item => item.id === draggingId);
+    const to = items.findIndex(item => item.id === targetId);
+    resetDrag();
+    if (from === -1 || to === -1 || from === to) return;
+    onReorder(moveItem(items, from, to));
+  };
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) => (
+        <div
+          key={item.id}
+          onDragOver={(e) => {
+            if (!draggingId) return;
+            e.preventDefault();
+            setOverId(item.id);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            dropOn(item.id);
+          }}
+          className={cn(
+            'flex items-center gap-2 rounded-lg transition-opacity',
+            draggingId === item.id && 'opacity-50',
+            overId === item.id && draggingId !== item.id && 'ring-2 ring-primary'
+          )}
+        >
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', item.id);
+              setDraggingId(item.id);
+            }}
+            onDragEnd={resetDrag}
+            className="cursor-grab text-muted-foreground active:cursor-grabbing"
+            aria-label="Drag to reorder"
+          >
+            <GripVertical className="w-4 h-4" />
+          </div>
+          <div className="flex-1">{renderItem(item)}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SortableList;
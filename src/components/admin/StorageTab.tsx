@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { formatBytes } from '@/lib/storage';
+import { Eraser } from 'lucide-react';
+
+interface StorageObject {
+  object_name: string;
+  size: number;
+  created_at: string;
+  note_id: string | null;
+  note_title: string | null;
+}
+
+const LARGEST_COUNT = 10;
+
+const StorageTab = () => {
+  const { toast } = useToast();
+  const [objects, setObjects] = useState<StorageObject[]>([]);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [failedCount, setFailedCount] = useState(0);
+  const [cleaning, setCleaning] = useState(false);
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  const fetchReport = async () => {
+    try {
+      const { data, error } = await supabase.rpc('storage_report');
+
+      if (error) throw error;
+      setObjects(data || []);
+
+      const { data: queued, error: queueError } = await supabase
+        .from('storage_deletions')
+        .select('attempts');
+
+      if (queueError) throw queueError;
+      setQueuedCount(queued?.length || 0);
+      setFailedCount(queued?.filter(row => row.attempts > 0).length || 0);
+    } catch (error) {
+      console.error('Error fetching storage report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load storage report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const cleanUp = async () => {
+    setCleaning(true);
+    try {
+      const { error: enqueueError } = await supabase.rpc('enqueue_storage_orphans');
+
+      if (enqueueError) throw enqueueError;
+
+      const { data, error } = await supabase.functions.invoke('storage-cleanup');
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Removed ${data?.removed ?? 0} files`,
+      });
+
+      fetchReport();
+    } catch (error) {
+      console.error('Error cleaning up storage:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clean up storage",
+        variant: "destructive",
+      });
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  const orphans = objects.filter(o => !o.note_id);
+  const totalSize = objects.reduce((sum, o) => sum + o.size, 0);
+  const orphanSize = orphans.reduce((sum, o) => sum + o.size, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Total</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatBytes(totalSize)}</div>
+            <p className="text-sm text-muted-foreground">{objects.length} PDF files</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Orphaned</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatBytes(orphanSize)}</div>
+            <p className="text-sm text-muted-foreground">{orphans.length} files without a note</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending removal</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{queuedCount}</div>
+            <p className="text-sm text-muted-foreground">
+              {failedCount > 0 ? `${failedCount} failed at least once` : 'Removed automatically every few minutes'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Orphaned Files</CardTitle>
+          <CardDescription>
+            Files in the PDF bucket that no note points to. Files uploaded in the last hour are left alone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {orphans.map((object) => (
+              <div key={object.object_name} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                <span className="font-mono">{object.object_name}</span>
+                <span className="text-muted-foreground">
+                  {formatBytes(object.size)} · {new Date(object.created_at).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+            {orphans.length === 0 && (
+              <p className="text-sm text-muted-foreground">No orphaned files.</p>
+            )}
+          </div>
+          <Button onClick={cleanUp} disabled={cleaning || (orphans.length === 0 && queuedCount === 0)}>
+            <Eraser className="w-4 h-4 mr-2" />
+            {cleaning ? 'Cleaning up...' : 'Clean Up'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Largest Files</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {objects.slice(0, LARGEST_COUNT).map((object) => (
+              <div key={object.object_name} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{object.note_title || object.object_name}</span>
+                  {!object.note_id && <Badge variant="secondary">Orphaned</Badge>}
+                </div>
+                <span className="text-muted-foreground">{formatBytes(object.size)}</span>
+              </div>
+            ))}
+            {objects.length === 0 && (
+              <p className="text-sm text-muted-foreground">The PDF bucket is empty.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StorageTab;
@@ -0,0 +1,165 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { expiryLabel, isExpired } from '@/lib/access';
+import { BookOpen } from 'lucide-react';
+
+export interface SubjectGrant {
+  id: string;
+  user_id: string;
+  subject_id: string;
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+interface SubjectAccessDialogProps {
+  user: { id: string; email: string };
+  subjects: { id: string; name: string }[];
+  grants: SubjectGrant[];
+  onChange: () => void;
+}
+
+const toDateInput = (value: string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`).toISOString() : null;
+
+const SubjectAccessDialog = ({ user, subjects, grants, onChange }: SubjectAccessDialogProps) => {
+  const { toast } = useToast();
+
+  const grantSubject = async (subjectId: string) => {
+    try {
+      const { error } = await supabase
+        .from('subject_access')
+        .insert([{ user_id: user.id, subject_id: subjectId }]);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error granting subject access:', error);
+      toast({
+        title: "Error",
+        description: "Failed to grant subject access",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeSubject = async (grantId: string) => {
+    try {
+      const { error } = await supabase
+        .from('subject_access')
+        .delete()
+        .eq('id', grantId);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error revoking subject access:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke subject access",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateGrantDates = async (grantId: string, changes: Partial<Pick<SubjectGrant, 'starts_at' | 'ends_at'>>) => {
+    try {
+      const { error } = await supabase
+        .from('subject_access')
+        .update(changes)
+        .eq('id', grantId);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error updating subject access dates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update access dates",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <BookOpen className="w-4 h-4 mr-2" />
+          Subjects ({grants.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Subject access</DialogTitle>
+          <DialogDescription>
+            Grant {user.email} individual subjects, optionally limited to a date range.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {subjects.map((subject) => {
+            const grant = grants.find(g => g.subject_id === subject.id);
+            return (
+              <div key={subject.id} className="flex flex-wrap items-center justify-between gap-4 p-3 border rounded-lg">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`grant-${user.id}-${subject.id}`}
+                    checked={!!grant}
+                    onCheckedChange={(checked) => (checked ? grantSubject(subject.id) : grant && revokeSubject(grant.id))}
+                  />
+                  <Label htmlFor={`grant-${user.id}-${subject.id}`}>{subject.name}</Label>
+                  {grant?.ends_at && (
+                    <Badge variant={isExpired(grant.ends_at) ? 'destructive' : 'outline'}>
+                      {expiryLabel(grant.ends_at)}
+                    </Badge>
+                  )}
+                </div>
+                {grant && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Label htmlFor={`grant-start-${grant.id}`}>From</Label>
+                    <Input
+                      id={`grant-start-${grant.id}`}
+                      type="date"
+                      className="h-8 w-36"
+                      value={toDateInput(grant.starts_at)}
+                      onChange={(e) => updateGrantDates(grant.id, { starts_at: fromDateInput(e.target.value, false) })}
+                    />
+                    <Label htmlFor={`grant-end-${grant.id}`}>Until</Label>
+                    <Input
+                      id={`grant-end-${grant.id}`}
+                      type="date"
+                      className="h-8 w-36"
+                      value={toDateInput(grant.ends_at)}
+                      onChange={(e) => updateGrantDates(grant.id, { ends_at: fromDateInput(e.target.value, true) })}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {subjects.length === 0 && (
+            <p className="text-sm text-muted-foreground">No subjects yet.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SubjectAccessDialog;
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import ConfirmDeleteButton from '@/components/admin/ConfirmDeleteButton';
+import { useToast } from '@/hooks/use-toast';
+import { daysUntil } from '@/lib/access';
+import { RotateCcw } from 'lucide-react';
+
+type TrashTable = 'subjects' | 'chapters' | 'notes' | 'videos';
+
+interface TrashItem {
+  id: string;
+  table: TrashTable;
+  title: string;
+  context: string | null;
+  deleted_at: string;
+}
+
+interface TrashTabProps {
+  onChange: () => void;
+}
+
+const RETENTION_DAYS = 30;
+
+const TABLE_LABELS: Record<TrashTable, string> = {
+  subjects: 'Subject',
+  chapters: 'Chapter',
+  notes: 'Note',
+  videos: 'Video',
+};
+
+const purgeDate = (deletedAt: string) =>
+  new Date(new Date(deletedAt).getTime() + RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+const TrashTab = ({ onChange }: TrashTabProps) => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<TrashItem[]>([]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const fetchTrash = async () => {
+    try {
+      const [subjectsResult, chaptersResult, notesResult, videosResult] = await Promise.all([
+        supabase.from('subjects').select('id, name, deleted_at').not('deleted_at', 'is', null),
+        supabase.from('chapters').select('id, title, subject_id, deleted_at, subjects(name)').not('deleted_at', 'is', null),
+        supabase.from('notes').select('id, title, chapter_id, deleted_at, chapters(title)').not('deleted_at', 'is', null),
+        supabase.from('videos').select('id, title, chapter_id, deleted_at, chapters(title)').not('deleted_at', 'is', null),
+      ]);
+
+      const error = subjectsResult.error || chaptersResult.error || notesResult.error || videosResult.error;
+      if (error) throw error;
+
+      const subjects = subjectsResult.data || [];
+      const chapters = chaptersResult.data || [];
+
+      // Children deleted together with their parent are restored with it, so only list the parent
+      const deletedWith = (list: { id: string; deleted_at: string | null }[], parentId: string, deletedAt: string | null) =>
+        list.some(parent => parent.id === parentId && parent.deleted_at === deletedAt);
+
+      const trash: TrashItem[] = [
+        ...subjects.map(s => ({
+          id: s.id, table: 'subjects' as const, title: s.name, context: null, deleted_at: s.deleted_at!,
+        })),
+        ...chapters
+          .filter(c => !deletedWith(subjects, c.subject_id, c.deleted_at))
+          .map(c => ({
+            id: c.id, table: 'chapters' as const, title: c.title, context: c.subjects?.name ?? null, deleted_at: c.deleted_at!,
+          })),
+        ...(notesResult.data || [])
+          .filter(n => !deletedWith(chapters, n.chapter_id, n.deleted_at))
+          .map(n => ({
+            id: n.id, table: 'notes' as const, title: n.title, context: n.chapters?.title ?? null, deleted_at: n.deleted_at!,
+          })),
+        ...(videosResult.data || [])
+          .filter(v => !deletedWith(chapters, v.chapter_id, v.deleted_at))
+          .map(v => ({
+            id: v.id, table: 'videos' as const, title: v.title, context: v.chapters?.title ?? null, deleted_at: v.deleted_at!,
+          })),
+      ];
+
+      setItems(trash.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at)));
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load trash",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      const { error } = await supabase.rpc('restore_content', { p_table: item.table, p_id: item.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${TABLE_LABELS[item.table]} restored`,
+      });
+
+      fetchTrash();
+      onChange();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const purgeItem = async (item: TrashItem) => {
+    try {
+      const { error } = await supabase.rpc('purge_content', { p_table: item.table, p_id: item.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${TABLE_LABELS[item.table]} permanently deleted`,
+      });
+
+      fetchTrash();
+    } catch (error) {
+      console.error('Error purging item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trash</CardTitle>
+        <CardDescription>
+          Deleted items are hidden from learners and permanently removed after {RETENTION_DAYS} days.
+          Restoring an item also restores everything deleted with it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {items.map((item) => (
+            <div key={`${item.table}-${item.id}`} className="flex items-center justify-between p-4 border rounded-lg">
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{TABLE_LABELS[item.table]}</Badge>
+                  <h3 className="font-medium">{item.title}</h3>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {item.context && `${item.context} · `}
+                  Deleted {new Date(item.deleted_at).toLocaleDateString()} ·
+                  Purged in {Math.max(daysUntil(purgeDate(item.deleted_at)), 0)} days
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => restoreItem(item)}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore
+                </Button>
+                <ConfirmDeleteButton
+                  title={`Permanently delete "${item.title}"?`}
+                  description="This cannot be undone. Everything inside it is deleted as well."
+                  confirmLabel="Delete Forever"
+                  onConfirm={() => purgeItem(item)}
+                />
+              </div>
+            </div>
+          ))}
+          {items.length === 0 && (
+            <p className="text-sm text-muted-foreground">Trash is empty.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrashTab;
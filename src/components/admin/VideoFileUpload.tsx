@@ -0,0 +1,81 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { uploadVideoWithProgress } from '@/lib/storage';
+import { isMp4File } from '@/lib/validation';
+import { storageVideoUrl } from '@/lib/video-source';
+import { Upload } from 'lucide-react';
+
+interface VideoFileUploadProps {
+  // Receives the storage:// link to save as the video's source
+  onUploaded: (sourceUrl: string) => void;
+}
+
+// Uploads an MP4 to the videos bucket. The video is transcoded for streaming
+// once it is saved with the returned link.
+const VideoFileUpload = ({ onUploaded }: VideoFileUploadProps) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const uploadFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!isMp4File(file)) {
+      toast({
+        title: "Error",
+        description: "Only MP4 files can be uploaded",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setProgress(0);
+    try {
+      const path = await uploadVideoWithProgress(file, setProgress);
+      onUploaded(storageVideoUrl(path));
+
+      toast({
+        title: "Success",
+        description: `${file.name} uploaded`,
+      });
+    } catch (error) {
+      console.error('Error uploading video file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload video file",
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={progress !== null}
+        onClick={() => inputRef.current?.click()}
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        {progress !== null ? `Uploading ${progress}%` : 'Upload MP4'}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="video/mp4,.mp4"
+        className="hidden"
+        onChange={(e) => {
+          uploadFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      {progress !== null && <Progress value={progress} className="h-2" />}
+    </div>
+  );
+};
+
+export default VideoFileUpload;
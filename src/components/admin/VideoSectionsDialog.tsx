@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { VideoSection, formatClockTime, parseClockTime, parseSectionList, sortSections } from '@/lib/video-sections';
+import { ListOrdered, Plus, X } from 'lucide-react';
+
+interface VideoSectionsDialogProps {
+  video: { id: string; title: string };
+}
+
+interface SectionRow {
+  key: string;
+  time: string;
+  title: string;
+  error: string | null;
+}
+
+const toRow = (section: VideoSection): SectionRow => ({
+  key: crypto.randomUUID(),
+  time: formatClockTime(section.start_seconds),
+  title: section.title,
+  error: null,
+});
+
+const VideoSectionsDialog = ({ video }: VideoSectionsDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<SectionRow[]>([]);
+  const [pasted, setPasted] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSections = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('video_sections')
+        .select('title, start_seconds')
+        .eq('video_id', video.id)
+        .order('start_seconds');
+
+      if (error) throw error;
+      setRows((data || []).map(toRow));
+    } catch (error) {
+      console.error('Error fetching video sections:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load video sections",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (next: boolean) => {
+    if (next) {
+      setRows([]);
+      setPasted('');
+      fetchSections();
+    }
+    setOpen(next);
+  };
+
+  const updateRow = (key: string, changes: Partial<SectionRow>) => {
+    setRows(current => current.map(row => (row.key === key ? { ...row, ...changes, error: null } : row)));
+  };
+
+  const addRow = () => {
+    setRows(current => [...current, { key: crypto.randomUUID(), time: '', title: '', error: null }]);
+  };
+
+  // Replaces the outline with the chapters of a YouTube description
+  const importPasted = () => {
+    const sections = parseSectionList(pasted);
+    if (sections.length === 0) {
+      toast({
+        title: "Error",
+        description: "No timestamps found. Put one section per line, like \"14:32 Derivation\".",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRows(sections.map(toRow));
+    setPasted('');
+  };
+
+  const validate = () => {
+    const seen = new Set<number>();
+    let valid = true;
+
+    const checked = rows.map((row) => {
+      const start = parseClockTime(row.time);
+      let error: string | null = null;
+      if (start === null) error = 'Use a time like 14:32 or 1:02:03';
+      else if (!row.title.trim()) error = 'Section title is required';
+      else if (seen.has(start)) error = 'Another section starts at the same time';
+
+      if (start !== null) seen.add(start);
+      if (error) valid = false;
+      return { ...row, error };
+    });
+
+    setRows(checked);
+    return valid;
+  };
+
+  const saveSections = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setSaving(true);
+    try {
+      const sections = sortSections(rows.map(row => ({
+        title: row.title.trim(),
+        start_seconds: parseClockTime(row.time)!,
+      })));
+
+      const { error } = await supabase.rpc('set_video_sections', {
+        p_video_id: video.id,
+        p_sections: sections,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: sections.length > 0 ? "Video outline saved" : "Video outline cleared",
+      });
+
+      setOpen(false);
+    } catch (error) {
+      console.error('Error saving video sections:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save video sections",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Edit outline of ${video.title}`}>
+          <ListOrdered className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Outline of {video.title}</DialogTitle>
+          <DialogDescription>
+            Learners see these sections next to the player and can jump straight to each one.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={saveSections} className="space-y-4">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            <div className="space-y-2">
+              {rows.length === 0 && (
+                <p className="text-sm text-muted-foreground">No sections yet.</p>
+              )}
+              {rows.map((row, index) => (
+                <div key={row.key} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={row.time}
+                      onChange={(e) => updateRow(row.key, { time: e.target.value })}
+                      placeholder="0:00"
+                      className="w-24 font-mono"
+                      aria-label={`Start time of section ${index + 1}`}
+                    />
+                    <Input
+                      value={row.title}
+                      onChange={(e) => updateRow(row.key, { title: e.target.value })}
+                      placeholder="Section title"
+                      aria-label={`Title of section ${index + 1}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRows(current => current.filter(r => r.key !== row.key))}
+                      aria-label={`Remove section ${index + 1}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {row.error && <p className="text-sm text-destructive">{row.error}</p>}
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={addRow}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Section
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor={`video-sections-paste-${video.id}`}>Paste from a YouTube description</Label>
+            <Textarea
+              id={`video-sections-paste-${video.id}`}
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder={'0:00 Introduction\n5:10 Definitions\n14:32 Derivation'}
+              rows={4}
+            />
+            <Button type="button" variant="outline" size="sm" onClick={importPasted} disabled={!pasted.trim()}>
+              Replace Sections
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={saving || loading}>
+              {saving ? 'Saving...' : 'Save Outline'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VideoSectionsDialog;
@@ -0,0 +1,202 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import AccessRequestForm from '@/components/dashboard/AccessRequestForm';
+import { useToast } from '@/hooks/use-toast';
+import { isExpired } from '@/lib/access';
+import { KeyRound, LogOut, RefreshCw } from 'lucide-react';
+
+interface AccessRequest {
+  id: string;
+  kind: string;
+  status: string;
+  admin_message: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+const AccessPendingCard = () => {
+  const { userData, signOut, refetchUserData } = useAuth();
+  const { toast } = useToast();
+  const [grantsExpired, setGrantsExpired] = useState(false);
+  const [latestRequest, setLatestRequest] = useState<AccessRequest | null>(null);
+  const [requesting, setRequesting] = useState(false);
+  const [inviteCode, setInviteCode] = useState('');
+  const [redeeming, setRedeeming] = useState(false);
+
+  useEffect(() => {
+    if (!userData?.id) return;
+
+    // A learner whose subject grants have all ended sees the expired state too
+    const fetchGrants = async () => {
+      const { data, error } = await supabase
+        .from('subject_access')
+        .select('ends_at')
+        .eq('user_id', userData.id);
+
+      if (error) {
+        console.error('Error fetching subject access:', error);
+        return;
+      }
+
+      setGrantsExpired(!!data?.length && data.every(grant => isExpired(grant.ends_at)));
+    };
+
+    fetchGrants();
+  }, [userData?.id]);
+
+  const fetchLatestRequest = useCallback(async () => {
+    if (!userData?.id) return;
+
+    const { data, error } = await supabase
+      .from('access_requests')
+      .select('id, kind, status, admin_message, decided_at, created_at')
+      .eq('user_id', userData.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching access request:', error);
+      return;
+    }
+
+    setLatestRequest(data);
+  }, [userData?.id]);
+
+  useEffect(() => {
+    fetchLatestRequest();
+  }, [fetchLatestRequest]);
+
+  const accessExpired =
+    (!!userData?.access && isExpired(userData.access_expires_at)) || grantsExpired;
+  const pendingRequest = latestRequest?.status === 'pending' ? latestRequest : null;
+  const rejectedRequest = latestRequest?.status === 'rejected' ? latestRequest : null;
+
+  const requestRenewal = async () => {
+    setRequesting(true);
+    try {
+      const { error } = await supabase.rpc('request_access_renewal');
+
+      if (error) throw error;
+
+      await fetchLatestRequest();
+      toast({
+        title: "Renewal requested",
+        description: "An admin will review your request.",
+      });
+    } catch (error) {
+      console.error('Error requesting renewal:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to request renewal",
+        variant: "destructive",
+      });
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const redeemInviteCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteCode.trim()) return;
+
+    setRedeeming(true);
+    try {
+      const { error } = await supabase.rpc('redeem_invite_code', { p_code: inviteCode });
+
+      if (error) throw error;
+
+      toast({
+        title: "Access granted",
+        description: "Your invite code was redeemed.",
+      });
+      setInviteCode('');
+      await refetchUserData();
+    } catch (error) {
+      console.error('Error redeeming invite code:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to redeem invite code",
+        variant: "destructive",
+      });
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-center">
+            {accessExpired ? 'Access Expired' : 'Access Pending'}
+          </CardTitle>
+          <CardDescription className="text-center">
+            {accessExpired
+              ? 'Your access period has ended. Request a renewal to continue learning.'
+              : 'Access pending approval by admin. Tell us who you are to request access.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          {pendingRequest ? (
+            <div className="p-4 border rounded-lg space-y-2">
+              <Badge variant="secondary">Pending review</Badge>
+              <p className="text-sm text-muted-foreground">
+                {pendingRequest.kind === 'renewal' ? 'Renewal' : 'Access'} requested on{' '}
+                {new Date(pendingRequest.created_at).toLocaleDateString()}.
+              </p>
+            </div>
+          ) : (
+            <>
+              {rejectedRequest && (
+                <div className="p-4 border rounded-lg space-y-2">
+                  <Badge variant="destructive">Request declined</Badge>
+                  {rejectedRequest.admin_message && (
+                    <p className="text-sm">&ldquo;{rejectedRequest.admin_message}&rdquo;</p>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    You can send a new request below.
+                  </p>
+                </div>
+              )}
+              {accessExpired ? (
+                <Button onClick={requestRenewal} disabled={requesting} className="w-full">
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  {requesting ? 'Requesting...' : 'Request Renewal'}
+                </Button>
+              ) : (
+                <AccessRequestForm onSubmitted={fetchLatestRequest} />
+              )}
+            </>
+          )}
+          <Separator />
+          <form onSubmit={redeemInviteCode} className="flex gap-2">
+            <Input
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+              placeholder="Have an invite code?"
+              aria-label="Invite code"
+            />
+            <Button type="submit" disabled={redeeming || !inviteCode.trim()}>
+              <KeyRound className="w-4 h-4 mr-2" />
+              {redeeming ? 'Redeeming...' : 'Redeem'}
+            </Button>
+          </form>
+          <Separator />
+          <Button onClick={signOut} variant="outline">
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AccessPendingCard;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Send } from 'lucide-react';
+
+interface AccessRequestFormProps {
+  onSubmitted: () => void;
+}
+
+const AccessRequestForm = ({ onSubmitted }: AccessRequestFormProps) => {
+  const { userData } = useAuth();
+  const { toast } = useToast();
+  const [catalog, setCatalog] = useState<{ id: string; name: string }[]>([]);
+  const [form, setForm] = useState({ full_name: '', institution: '', reason: '', subject_ids: [] as string[] });
+  const [errors, setErrors] = useState<{ full_name?: string; reason?: string }>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchCatalog = async () => {
+      const { data, error } = await supabase.rpc('list_subject_catalog');
+
+      if (error) {
+        console.error('Error fetching subject catalog:', error);
+        return;
+      }
+
+      setCatalog(data || []);
+    };
+
+    fetchCatalog();
+  }, []);
+
+  const toggleSubject = (subjectId: string, checked: boolean) => {
+    setForm({
+      ...form,
+      subject_ids: checked
+        ? [...form.subject_ids, subjectId]
+        : form.subject_ids.filter(id => id !== subjectId),
+    });
+  };
+
+  const submitRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nextErrors = {
+      full_name: form.full_name.trim() ? undefined : 'Please enter your name',
+      reason: form.reason.trim() ? undefined : 'Please tell us why you need access',
+    };
+    setErrors(nextErrors);
+    if (nextErrors.full_name || nextErrors.reason || !userData) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('access_requests')
+        .insert([{
+          user_id: userData.id,
+          full_name: form.full_name.trim(),
+          institution: form.institution.trim() || null,
+          reason: form.reason.trim(),
+          subject_ids: form.subject_ids,
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Request sent",
+        description: "An admin will review your request.",
+      });
+      onSubmitted();
+    } catch (error) {
+      console.error('Error submitting access request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to submit access request",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submitRequest} className="space-y-4 text-left">
+      <div>
+        <Label htmlFor="request-name">Full name</Label>
+        <Input
+          id="request-name"
+          value={form.full_name}
+          onChange={(e) => setForm({...form, full_name: e.target.value})}
+          placeholder="Enter your name"
+        />
+        {errors.full_name && <p className="text-sm text-destructive mt-1">{errors.full_name}</p>}
+      </div>
+      <div>
+        <Label htmlFor="request-institution">Institution</Label>
+        <Input
+          id="request-institution"
+          value={form.institution}
+          onChange={(e) => setForm({...form, institution: e.target.value})}
+          placeholder="School or university (optional)"
+        />
+      </div>
+      <div>
+        <Label htmlFor="request-reason">Reason</Label>
+        <Textarea
+          id="request-reason"
+          value={form.reason}
+          onChange={(e) => setForm({...form, reason: e.target.value})}
+          placeholder="Which course are you enrolled in?"
+        />
+        {errors.reason && <p className="text-sm text-destructive mt-1">{errors.reason}</p>}
+      </div>
+      {catalog.length > 0 && (
+        <div>
+          <Label>Subjects (optional)</Label>
+          <div className="grid gap-2 mt-2">
+            {catalog.map((subject) => (
+              <div key={subject.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`request-subject-${subject.id}`}
+                  checked={form.subject_ids.includes(subject.id)}
+                  onCheckedChange={(checked) => toggleSubject(subject.id, !!checked)}
+                />
+                <Label htmlFor={`request-subject-${subject.id}`}>{subject.name}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <Button type="submit" disabled={submitting} className="w-full">
+        <Send className="w-4 h-4 mr-2" />
+        {submitting ? 'Sending...' : 'Request Access'}
+      </Button>
+    </form>
+  );
+};
+
+export default AccessRequestForm;
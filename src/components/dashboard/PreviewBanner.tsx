@@ -0,0 +1,35 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePreview } from '@/contexts/PreviewContext';
+import { Button } from '@/components/ui/button';
+import { Eye } from 'lucide-react';
+
+const PreviewBanner = () => {
+  const navigate = useNavigate();
+  const { previewAsLearner, setPreviewAsLearner } = usePreview();
+
+  if (!previewAsLearner) return null;
+
+  return (
+    <div className="bg-amber-100 text-amber-900 border-b border-amber-200">
+      <div className="container mx-auto px-4 py-2 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm flex items-center gap-2">
+          <Eye className="w-4 h-4" />
+          Previewing as a learner. Drafts and content scheduled for later are hidden.
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setPreviewAsLearner(false);
+            navigate('/admin');
+          }}
+        >
+          Exit Preview
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PreviewBanner;
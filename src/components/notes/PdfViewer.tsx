@@ -0,0 +1,287 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GlobalWorkerOptions, TextLayer, getDocument } from 'pdfjs-dist';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import 'pdfjs-dist/web/pdf_viewer.css';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronLeft, ChevronRight, ChevronUp, ChevronDown, ZoomIn, ZoomOut, MoveHorizontal, Search } from 'lucide-react';
+
+GlobalWorkerOptions.workerSrc = workerSrc;
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 0.25;
+
+interface PdfViewerProps {
+  url: string;
+  initialPage?: number;
+  onPageChange?: (page: number) => void;
+}
+
+const PdfViewer = ({ url, initialPage = 1, onPageChange }: PdfViewerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const renderTaskRef = useRef<RenderTask | null>(null);
+  const pageTextsRef = useRef<Map<number, string>>(new Map());
+
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(initialPage);
+  const [pageInput, setPageInput] = useState(String(initialPage));
+  const [scale, setScale] = useState(1);
+  const [renderedScale, setRenderedScale] = useState(1);
+  const [fitWidth, setFitWidth] = useState(true);
+  const [containerWidth, setContainerWidth] = useState(0);
+
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [matchPages, setMatchPages] = useState<number[]>([]);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    const loadingTask = getDocument(url);
+    pageTextsRef.current = new Map();
+    setPdf(null);
+    setError(null);
+
+    loadingTask.promise
+      .then((doc) => {
+        setPdf(doc);
+        setPageNumber((current) => Math.min(Math.max(current, 1), doc.numPages));
+      })
+      .catch((err) => {
+        console.error('Error loading PDF:', err);
+        setError('Failed to load this PDF.');
+      });
+
+    return () => {
+      loadingTask.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setPageInput(String(pageNumber));
+    onPageChange?.(pageNumber);
+  }, [pageNumber, onPageChange]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !textLayerRef.current) return;
+    let cancelled = false;
+
+    const renderPage = async () => {
+      const page = await pdf.getPage(pageNumber);
+      if (cancelled) return;
+
+      const baseViewport = page.getViewport({ scale: 1 });
+      const effectiveScale = fitWidth && containerWidth > 0
+        ? Math.min(Math.max(containerWidth / baseViewport.width, MIN_SCALE), MAX_SCALE)
+        : scale;
+      setRenderedScale(effectiveScale);
+
+      const viewport = page.getViewport({ scale: effectiveScale });
+      const outputScale = window.devicePixelRatio || 1;
+      const canvas = canvasRef.current!;
+      const context = canvas.getContext('2d')!;
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTaskRef.current?.cancel();
+      const renderTask = page.render({
+        canvasContext: context,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      renderTaskRef.current = renderTask;
+
+      try {
+        await renderTask.promise;
+      } catch (err) {
+        if ((err as Error)?.name !== 'RenderingCancelledException') {
+          console.error('Error rendering PDF page:', err);
+        }
+        return;
+      }
+      if (cancelled) return;
+
+      const textLayerDiv = textLayerRef.current!;
+      textLayerDiv.replaceChildren();
+      textLayerDiv.parentElement!.style.setProperty('--scale-factor', String(effectiveScale));
+
+      const textLayer = new TextLayer({
+        textContentSource: page.streamTextContent(),
+        container: textLayerDiv,
+        viewport,
+      });
+      await textLayer.render();
+      if (cancelled || !searchQuery) return;
+
+      const needle = searchQuery.toLowerCase();
+      textLayer.textDivs.forEach((div) => {
+        if (div.textContent?.toLowerCase().includes(needle)) {
+          div.classList.add('highlight');
+        }
+      });
+    };
+
+    renderPage();
+
+    return () => {
+      cancelled = true;
+      renderTaskRef.current?.cancel();
+    };
+  }, [pdf, pageNumber, scale, fitWidth, containerWidth, searchQuery]);
+
+  const getPageText = useCallback(async (pageIndex: number) => {
+    const cached = pageTextsRef.current.get(pageIndex);
+    if (cached !== undefined) return cached;
+
+    const page = await pdf!.getPage(pageIndex);
+    const content = await page.getTextContent();
+    const text = content.items.map((item) => ('str' in item ? item.str : '')).join(' ').toLowerCase();
+    pageTextsRef.current.set(pageIndex, text);
+    return text;
+  }, [pdf]);
+
+  const goToPage = (page: number) => {
+    if (!pdf) return;
+    setPageNumber(Math.min(Math.max(page, 1), pdf.numPages));
+  };
+
+  const zoomBy = (delta: number) => {
+    setFitWidth(false);
+    setScale(Math.min(Math.max(renderedScale + delta, MIN_SCALE), MAX_SCALE));
+  };
+
+  const runSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchInput.trim();
+    setSearchQuery(query);
+    setMatchPages([]);
+    setMatchIndex(0);
+    if (!pdf || !query) return;
+
+    setSearching(true);
+    const needle = query.toLowerCase();
+    const pages: number[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      if ((await getPageText(i)).includes(needle)) {
+        pages.push(i);
+      }
+    }
+    setSearching(false);
+    setMatchPages(pages);
+
+    if (pages.length > 0) {
+      const nextIndex = Math.max(pages.findIndex((page) => page >= pageNumber), 0);
+      setMatchIndex(nextIndex);
+      setPageNumber(pages[nextIndex]);
+    }
+  };
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matchPages.length === 0) return;
+    const nextIndex = (matchIndex + direction + matchPages.length) % matchPages.length;
+    setMatchIndex(nextIndex);
+    setPageNumber(matchPages[nextIndex]);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-4 p-2 border rounded-lg bg-muted/30">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => goToPage(pageNumber - 1)} disabled={!pdf || pageNumber <= 1}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              goToPage(parseInt(pageInput, 10) || pageNumber);
+            }}
+            className="flex items-center gap-1 text-sm"
+          >
+            <Input
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value)}
+              className="h-8 w-14 text-center"
+              aria-label="Page number"
+            />
+            <span className="text-muted-foreground">/ {pdf?.numPages ?? '–'}</span>
+          </form>
+          <Button size="sm" variant="outline" onClick={() => goToPage(pageNumber + 1)} disabled={!pdf || pageNumber >= pdf.numPages}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => zoomBy(-ZOOM_STEP)} disabled={renderedScale <= MIN_SCALE}>
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="text-sm w-12 text-center">{Math.round(renderedScale * 100)}%</span>
+          <Button size="sm" variant="outline" onClick={() => zoomBy(ZOOM_STEP)} disabled={renderedScale >= MAX_SCALE}>
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant={fitWidth ? 'secondary' : 'outline'} onClick={() => setFitWidth(true)}>
+            <MoveHorizontal className="w-4 h-4 mr-1" />
+            Fit width
+          </Button>
+        </div>
+
+        <form onSubmit={runSearch} className="flex items-center gap-2">
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search in document"
+            className="h-8 w-48"
+          />
+          <Button size="sm" variant="outline" type="submit" disabled={!pdf || searching}>
+            <Search className="w-4 h-4" />
+          </Button>
+          {searchQuery && (
+            <>
+              <span className="text-sm text-muted-foreground whitespace-nowrap">
+                {searching
+                  ? 'Searching...'
+                  : matchPages.length > 0
+                    ? `Match ${matchIndex + 1} of ${matchPages.length}`
+                    : 'No matches'}
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => stepMatch(-1)} disabled={matchPages.length === 0}>
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => stepMatch(1)} disabled={matchPages.length === 0}>
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+        </form>
+      </div>
+
+      <div ref={containerRef} className="w-full overflow-auto border rounded-lg bg-muted/50">
+        {error ? (
+          <p className="text-center text-muted-foreground py-12">{error}</p>
+        ) : (
+          <div className="relative mx-auto w-fit shadow">
+            <canvas ref={canvasRef} className="block" />
+            <div ref={textLayerRef} className="textLayer" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { usePreview } from '@/contexts/PreviewContext';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { BookOpen, FileSearch, FileText, Layers, Search, Video } from 'lucide-react';
+
+type ResultKind = 'subject' | 'chapter' | 'note' | 'video';
+
+interface SearchResult {
+  kind: string;
+  id: string;
+  title: string;
+  subject_id: string;
+  subject_name: string;
+  chapter_id: string | null;
+  chapter_title: string | null;
+  released: boolean;
+}
+
+const SEARCH_DELAY_MS = 200;
+
+const GROUPS: { kind: ResultKind; heading: string; icon: typeof Search }[] = [
+  { kind: 'subject', heading: 'Subjects', icon: BookOpen },
+  { kind: 'chapter', heading: 'Chapters', icon: Layers },
+  { kind: 'note', heading: 'Notes', icon: FileText },
+  { kind: 'video', heading: 'Videos', icon: Video },
+];
+
+const resultPath = (result: SearchResult) => {
+  switch (result.kind) {
+    case 'subject':
+      return `/subjects/${result.subject_id}`;
+    case 'chapter':
+      return `/subjects/${result.subject_id}#chapter-${result.id}`;
+    case 'note':
+      return `/subjects/${result.subject_id}/notes/${result.id}`;
+    default:
+      return `/subjects/${result.subject_id}/videos/${result.id}`;
+  }
+};
+
+// Search box plus a Ctrl/Cmd+K command palette over everything the user can see
+const SearchPalette = () => {
+  const navigate = useNavigate();
+  const { previewAsLearner } = usePreview();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      const { data, error } = await supabase.rpc('search_content', { p_query: query });
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error searching content:', error);
+        setResults([]);
+      } else {
+        // RLS already hides unreleased content from learners; staff previewing get the same view
+        setResults((data || []).filter(result => !previewAsLearner || result.released));
+      }
+      setSearching(false);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, previewAsLearner]);
+
+  const openPath = (path: string) => {
+    setOpen(false);
+    setQuery('');
+    navigate(path);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} className="text-muted-foreground">
+        <Search className="w-4 h-4 mr-2" />
+        Search
+        <kbd className="ml-4 hidden rounded border bg-muted px-1.5 font-mono text-xs md:inline">⌘K</kbd>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          {/* Results are ranked by the database, so cmdk must not filter them again */}
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Search subjects, chapters, notes and videos..."
+            />
+            <CommandList className="max-h-[400px]">
+              {/* The full-text link is always listed, so cmdk's CommandEmpty would never show */}
+              {query.trim() && !searching && results.length === 0 && (
+                <p className="py-6 text-center text-sm">No matching titles.</p>
+              )}
+              {GROUPS.map(({ kind, heading, icon: Icon }) => {
+                const groupResults = results.filter(result => result.kind === kind);
+                if (groupResults.length === 0) return null;
+
+                return (
+                  <CommandGroup key={kind} heading={heading}>
+                    {groupResults.map((result) => (
+                      <CommandItem
+                        key={result.id}
+                        value={`${kind}-${result.id}`}
+                        onSelect={() => openPath(resultPath(result))}
+                      >
+                        <Icon className="w-4 h-4 mr-2 shrink-0" />
+                        <div className="min-w-0">
+                          <p className="truncate">{result.title}</p>
+                          {kind !== 'subject' && (
+                            <p className="text-xs text-muted-foreground truncate">
+                              {kind === 'chapter'
+                                ? result.subject_name
+                                : `${result.subject_name} · ${result.chapter_title}`}
+                            </p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+              {query.trim() && (
+                <CommandGroup heading="Full text">
+                  <CommandItem
+                    value="search-note-pages"
+                    onSelect={() => openPath(`/search?q=${encodeURIComponent(query.trim())}`)}
+                  >
+                    <FileSearch className="w-4 h-4 mr-2 shrink-0" />
+                    <span className="truncate">Search inside notes for “{query.trim()}”</span>
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SearchPalette;
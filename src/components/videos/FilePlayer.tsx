@@ -0,0 +1,103 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { getSignedVideoUrl } from '@/lib/storage';
+import type { PlayerHandle, PlayerProps } from '@/components/videos/VideoPlayer';
+
+const TICK_INTERVAL_MS = 1000;
+
+interface FilePlayerProps extends PlayerProps {
+  // Object path inside the videos bucket
+  path: string;
+}
+
+// Plays an MP4 from the private videos bucket through a short-lived signed URL
+const FilePlayer = forwardRef<PlayerHandle, FilePlayerProps>(({ path, startSeconds = 0, onTimeUpdate, onStop }, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastTickRef = useRef(0);
+  const [src, setSrc] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const onStopRef = useRef(onStop);
+  onStopRef.current = onStop;
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds) => {
+      const video = videoRef.current;
+      if (!video) return;
+      video.currentTime = seconds;
+      // Browsers may refuse to start playback; the seek still lands
+      video.play().catch(() => {});
+    },
+  }), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setError(null);
+
+    getSignedVideoUrl(path)
+      .then((url) => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch((err) => {
+        console.error('Error loading video file:', err);
+        if (!cancelled) setError('Failed to load this video.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  // Report where playback stopped when leaving the page mid-video
+  useEffect(() => {
+    const video = videoRef.current;
+    return () => {
+      if (video && !video.paused && !video.ended) {
+        onStopRef.current?.(video.currentTime, video.duration, false);
+      }
+    };
+  }, [src]);
+
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    if (video.paused || Date.now() - lastTickRef.current < TICK_INTERVAL_MS) return;
+    lastTickRef.current = Date.now();
+    onTimeUpdate?.(video.currentTime, video.duration);
+  };
+
+  const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    if (startSeconds > 0 && startSeconds < e.currentTarget.duration) {
+      e.currentTarget.currentTime = startSeconds;
+    }
+  };
+
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black">
+      {src && (
+        <video
+          ref={videoRef}
+          src={src}
+          controls
+          playsInline
+          className="h-full w-full"
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={handleTimeUpdate}
+          onPause={(e) => {
+            // Browsers fire pause right before ended; ended reports that case
+            if (!e.currentTarget.ended) onStop?.(e.currentTarget.currentTime, e.currentTarget.duration, false);
+          }}
+          onEnded={(e) => onStop?.(e.currentTarget.currentTime, e.currentTarget.duration, true)}
+          onError={() => setError('This video cannot be played.')}
+        />
+      )}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-muted text-center p-4">
+          <p className="text-muted-foreground">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+});
+FilePlayer.displayName = 'FilePlayer';
+
+export default FilePlayer;
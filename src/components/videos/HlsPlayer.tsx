@@ -0,0 +1,182 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import Hls from 'hls.js';
+import { supabase } from '@/integrations/supabase/client';
+import { getAuthenticatedVideoUrl, getSignedVideoUrl } from '@/lib/storage';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { PlayerHandle, PlayerProps } from '@/components/videos/VideoPlayer';
+
+const TICK_INTERVAL_MS = 1000;
+const AUTO_LEVEL = 'auto';
+
+interface HlsPlayerProps extends PlayerProps {
+  // Master playlist and poster inside the videos bucket, written by the transcode worker
+  playlistPath: string;
+  posterPath: string | null;
+}
+
+// Streams a transcoded upload with hls.js. Segments go through the same storage
+// policies as the source file, so every request carries the user's access token.
+const HlsPlayer = forwardRef<PlayerHandle, HlsPlayerProps>(({ playlistPath, posterPath, startSeconds = 0, onTimeUpdate, onStop }, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const hlsRef = useRef<Hls | null>(null);
+  const lastTickRef = useRef(0);
+  const [poster, setPoster] = useState<string | undefined>(undefined);
+  const [levels, setLevels] = useState<{ index: number; height: number }[]>([]);
+  const [selectedLevel, setSelectedLevel] = useState(AUTO_LEVEL);
+  const [playingLevel, setPlayingLevel] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const onStopRef = useRef(onStop);
+  onStopRef.current = onStop;
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds) => {
+      const video = videoRef.current;
+      if (!video) return;
+      video.currentTime = seconds;
+      // Browsers may refuse to start playback; the seek still lands
+      video.play().catch(() => {});
+    },
+  }), []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let hls: Hls | null = null;
+    let cancelled = false;
+    let accessToken: string | undefined;
+    setLevels([]);
+    setSelectedLevel(AUTO_LEVEL);
+    setPlayingLevel(null);
+    setError(null);
+
+    // Tokens are refreshed in the background during long lectures
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      accessToken = session?.access_token;
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (cancelled) return;
+      accessToken = session?.access_token;
+
+      hls = new Hls({
+        startPosition: startSeconds > 0 ? startSeconds : -1,
+        xhrSetup: (xhr) => {
+          if (accessToken) xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+        },
+      });
+      hlsRef.current = hls;
+
+      hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+        setLevels(
+          data.levels
+            .map((level, index) => ({ index, height: level.height }))
+            .sort((a, b) => b.height - a.height)
+        );
+      });
+      hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => setPlayingLevel(data.level));
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return;
+        if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+          hls?.recoverMediaError();
+          return;
+        }
+        console.error('HLS playback error:', data);
+        setError('This video cannot be played.');
+        hls?.destroy();
+        hlsRef.current = null;
+      });
+
+      hls.loadSource(getAuthenticatedVideoUrl(playlistPath));
+      hls.attachMedia(video);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+      if (!video.paused && !video.ended) {
+        onStopRef.current?.(video.currentTime, video.duration, false);
+      }
+      hls?.destroy();
+      hlsRef.current = null;
+    };
+    // startSeconds only matters when the stream is loaded
+  }, [playlistPath]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPoster(undefined);
+    if (!posterPath) return;
+
+    getSignedVideoUrl(posterPath)
+      .then((url) => {
+        if (!cancelled) setPoster(url);
+      })
+      .catch((err) => console.error('Error loading video poster:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [posterPath]);
+
+  const changeLevel = (value: string) => {
+    setSelectedLevel(value);
+    // -1 hands quality back to hls.js' bandwidth estimate
+    if (hlsRef.current) hlsRef.current.currentLevel = value === AUTO_LEVEL ? -1 : Number(value);
+  };
+
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    if (video.paused || Date.now() - lastTickRef.current < TICK_INTERVAL_MS) return;
+    lastTickRef.current = Date.now();
+    onTimeUpdate?.(video.currentTime, video.duration);
+  };
+
+  const playingHeight = levels.find(level => level.index === playingLevel)?.height;
+
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black">
+      <video
+        ref={videoRef}
+        poster={poster}
+        controls
+        playsInline
+        className="h-full w-full"
+        onTimeUpdate={handleTimeUpdate}
+        onPause={(e) => {
+          // Browsers fire pause right before ended; ended reports that case
+          if (!e.currentTarget.ended) onStop?.(e.currentTarget.currentTime, e.currentTarget.duration, false);
+        }}
+        onEnded={(e) => onStop?.(e.currentTarget.currentTime, e.currentTarget.duration, true)}
+      />
+      {levels.length > 1 && !error && (
+        <div className="absolute right-2 top-2">
+          <Select value={selectedLevel} onValueChange={changeLevel}>
+            <SelectTrigger className="h-8 w-32 border-0 bg-black/60 text-white" aria-label="Video quality">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_LEVEL}>
+                {selectedLevel === AUTO_LEVEL && playingHeight ? `Auto (${playingHeight}p)` : 'Auto'}
+              </SelectItem>
+              {levels.map((level) => (
+                <SelectItem key={level.index} value={String(level.index)}>
+                  {level.height}p
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-muted text-center p-4">
+          <p className="text-muted-foreground">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+});
+HlsPlayer.displayName = 'HlsPlayer';
+
+export default HlsPlayer;
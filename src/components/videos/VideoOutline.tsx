@@ -0,0 +1,45 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { VideoSection, currentSectionIndex, formatClockTime } from '@/lib/video-sections';
+import { cn } from '@/lib/utils';
+
+interface VideoOutlineProps {
+  sections: VideoSection[];
+  positionSeconds: number;
+  onSelect: (startSeconds: number) => void;
+}
+
+// The lecture's sections in order; the one playing is highlighted
+const VideoOutline = ({ sections, positionSeconds, onSelect }: VideoOutlineProps) => {
+  const current = currentSectionIndex(sections, positionSeconds);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Outline</CardTitle>
+      </CardHeader>
+      <CardContent className="p-2 pt-0">
+        <ol className="space-y-1">
+          {sections.map((section, index) => (
+            <li key={section.start_seconds}>
+              <button
+                type="button"
+                onClick={() => onSelect(section.start_seconds)}
+                aria-current={index === current ? 'true' : undefined}
+                className={cn(
+                  'flex w-full items-start gap-3 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted',
+                  index === current && 'bg-muted font-medium'
+                )}
+              >
+                <span className="font-mono text-xs text-primary pt-0.5">{formatClockTime(section.start_seconds)}</span>
+                <span>{section.title}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VideoOutline;
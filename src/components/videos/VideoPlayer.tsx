@@ -0,0 +1,52 @@
+import React, { forwardRef } from 'react';
+import Hls from 'hls.js';
+import { VideoSource } from '@/lib/video-source';
+import YouTubePlayer from '@/components/videos/YouTubePlayer';
+import VimeoPlayer from '@/components/videos/VimeoPlayer';
+import FilePlayer from '@/components/videos/FilePlayer';
+import HlsPlayer from '@/components/videos/HlsPlayer';
+
+// Shared by every provider's player so progress tracking doesn't care where a video lives
+export interface PlayerProps {
+  startSeconds?: number;
+  // Called about once a second while the video plays
+  onTimeUpdate?: (positionSeconds: number, durationSeconds: number) => void;
+  // Called when playback pauses or ends, and when the player goes away mid-video
+  onStop?: (positionSeconds: number, durationSeconds: number, ended: boolean) => void;
+}
+
+// The transcode worker's output for an uploaded video
+export interface VideoStream {
+  playlistPath: string;
+  posterPath: string | null;
+}
+
+// Lets the page move playback, e.g. from the lecture outline
+export interface PlayerHandle {
+  seekTo: (seconds: number) => void;
+}
+
+interface VideoPlayerProps extends PlayerProps {
+  source: VideoSource;
+  // Set once an uploaded video has been transcoded
+  stream?: VideoStream | null;
+}
+
+const VideoPlayer = forwardRef<PlayerHandle, VideoPlayerProps>(({ source, stream, ...playerProps }, ref) => {
+  switch (source.provider) {
+    case 'youtube':
+      return <YouTubePlayer ref={ref} videoId={source.videoId} {...playerProps} />;
+    case 'vimeo':
+      return <VimeoPlayer ref={ref} url={source.url} {...playerProps} />;
+    default:
+      // Until the stream is ready, and in browsers without Media Source Extensions,
+      // the original MP4 plays instead
+      if (stream && Hls.isSupported()) {
+        return <HlsPlayer ref={ref} playlistPath={stream.playlistPath} posterPath={stream.posterPath} {...playerProps} />;
+      }
+      return <FilePlayer ref={ref} path={source.videoId} {...playerProps} />;
+  }
+});
+VideoPlayer.displayName = 'VideoPlayer';
+
+export default VideoPlayer;
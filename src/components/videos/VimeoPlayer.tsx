@@ -0,0 +1,114 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { VimeoPlayer as Player, loadVimeoApi } from '@/lib/vimeo';
+import type { PlayerHandle, PlayerProps } from '@/components/videos/VideoPlayer';
+
+const TICK_INTERVAL_MS = 1000;
+
+interface VimeoPlayerProps extends PlayerProps {
+  // Watch URL, which carries the privacy hash of unlisted videos
+  url: string;
+}
+
+const VimeoPlayer = forwardRef<PlayerHandle, VimeoPlayerProps>(({ url, startSeconds = 0, onTimeUpdate, onStop }, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Only set once the player can take commands
+  const playerRef = useRef<Player | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The player is created once per video; keep the latest callbacks without recreating it
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  const onStopRef = useRef(onStop);
+  onTimeUpdateRef.current = onTimeUpdate;
+  onStopRef.current = onStop;
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds) => {
+      const player = playerRef.current;
+      if (!player) return;
+      player.setCurrentTime(seconds).then(() => player.play()).catch(() => {});
+    },
+  }), []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let player: Player | null = null;
+    let cancelled = false;
+    let playing = false;
+    let lastTick = 0;
+    let lastPosition = { seconds: 0, duration: 0 };
+    setError(null);
+
+    // The SDK adds its iframe inside this element
+    const mount = document.createElement('div');
+    mount.className = 'h-full w-full';
+    container.appendChild(mount);
+
+    loadVimeoApi()
+      .then((Vimeo) => {
+        if (cancelled) return;
+        player = new Vimeo.Player(mount, { url: url.split('#')[0], dnt: true });
+
+        player.ready().then(() => {
+          if (cancelled) return;
+          playerRef.current = player;
+          if (startSeconds > 0) player?.setCurrentTime(startSeconds);
+        });
+
+        // timeupdate fires several times a second; report at the same pace as the other players
+        player.on('timeupdate', (data) => {
+          playing = true;
+          lastPosition = data;
+          if (Date.now() - lastTick >= TICK_INTERVAL_MS) {
+            lastTick = Date.now();
+            onTimeUpdateRef.current?.(data.seconds, data.duration);
+          }
+        });
+        player.on('pause', (data) => {
+          playing = false;
+          onStopRef.current?.(data.seconds, data.duration, false);
+        });
+        player.on('ended', (data) => {
+          playing = false;
+          onStopRef.current?.(data.seconds, data.duration, true);
+        });
+        player.on('error', (err) => {
+          console.error('Vimeo player error:', err);
+          setError('This video cannot be played here.');
+        });
+      })
+      .catch((err) => {
+        console.error('Error loading Vimeo player:', err);
+        if (!cancelled) setError('Failed to load the video player.');
+      });
+
+    return () => {
+      cancelled = true;
+      playerRef.current = null;
+      if (player) {
+        if (playing) onStopRef.current?.(lastPosition.seconds, lastPosition.duration, false);
+        player.destroy();
+      }
+      container.replaceChildren();
+    };
+    // startSeconds only matters when the player is created
+  }, [url]);
+
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black">
+      <div ref={containerRef} className="absolute inset-0 [&_iframe]:h-full [&_iframe]:w-full" />
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-muted text-center p-4">
+          <p className="text-muted-foreground">{error}</p>
+          <a href={url} target="_blank" rel="noreferrer" className="text-primary underline">
+            Watch on Vimeo
+          </a>
+        </div>
+      )}
+    </div>
+  );
+});
+VimeoPlayer.displayName = 'VimeoPlayer';
+
+export default VimeoPlayer;
@@ -0,0 +1,114 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { PLAYER_STATE, YouTubePlayer as Player, loadYouTubeApi } from '@/lib/youtube';
+import type { PlayerHandle, PlayerProps } from '@/components/videos/VideoPlayer';
+
+const TICK_INTERVAL_MS = 1000;
+
+interface YouTubePlayerProps extends PlayerProps {
+  videoId: string;
+}
+
+const YouTubePlayer = forwardRef<PlayerHandle, YouTubePlayerProps>(({ videoId, startSeconds = 0, onTimeUpdate, onStop }, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Only set once the player can take commands
+  const playerRef = useRef<Player | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The player is created once per video; keep the latest callbacks without recreating it
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  const onStopRef = useRef(onStop);
+  onTimeUpdateRef.current = onTimeUpdate;
+  onStopRef.current = onStop;
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds) => {
+      playerRef.current?.seekTo(seconds, true);
+      playerRef.current?.playVideo();
+    },
+  }), []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let player: Player | null = null;
+    let tick: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+    setError(null);
+
+    const stopTicking = () => {
+      clearInterval(tick);
+      tick = undefined;
+    };
+
+    // The API replaces its target element with an iframe, so give it one React doesn't own
+    const mount = document.createElement('div');
+    container.appendChild(mount);
+
+    loadYouTubeApi()
+      .then((YT) => {
+        if (cancelled) return;
+        player = new YT.Player(mount, {
+          videoId,
+          width: '100%',
+          height: '100%',
+          playerVars: { start: Math.floor(startSeconds), rel: 0, playsinline: 1 },
+          events: {
+            onReady: ({ target }) => {
+              playerRef.current = target;
+            },
+            onStateChange: ({ data, target }) => {
+              if (data === PLAYER_STATE.PLAYING) {
+                stopTicking();
+                tick = setInterval(() => {
+                  onTimeUpdateRef.current?.(target.getCurrentTime(), target.getDuration());
+                }, TICK_INTERVAL_MS);
+              } else if (data === PLAYER_STATE.PAUSED || data === PLAYER_STATE.ENDED) {
+                stopTicking();
+                onStopRef.current?.(target.getCurrentTime(), target.getDuration(), data === PLAYER_STATE.ENDED);
+              }
+            },
+            onError: () => setError('This video cannot be played here.'),
+          },
+        });
+      })
+      .catch((err) => {
+        console.error('Error loading YouTube player:', err);
+        if (!cancelled) setError('Failed to load the video player.');
+      });
+
+    return () => {
+      cancelled = true;
+      playerRef.current = null;
+      if (player) {
+        if (tick) onStopRef.current?.(player.getCurrentTime(), player.getDuration(), false);
+        player.destroy();
+      }
+      stopTicking();
+      container.replaceChildren();
+    };
+    // startSeconds only matters when the player is created
+  }, [videoId]);
+
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black">
+      <div ref={containerRef} className="absolute inset-0" />
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-muted text-center p-4">
+          <p className="text-muted-foreground">{error}</p>
+          <a
+            href={`https://www.youtube.com/watch?v=${videoId}`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-primary underline"
+          >
+            Watch on YouTube
+          </a>
+        </div>
+      )}
+    </div>
+  );
+});
+YouTubePlayer.displayName = 'YouTubePlayer';
+
+export default YouTubePlayer;
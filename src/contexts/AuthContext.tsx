@@ -1,13 +1,14 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { AppRole } from '@/lib/roles';
 
 interface UserData {
   id: string;
   email: string;
   access: boolean;
-  role: string;
-  is_admin: boolean;
+  access_expires_at: string | null;
+  role: AppRole;
   created_at: string;
 }
 
@@ -15,6 +16,7 @@ interface AuthContextType {
   user: User | null;
   session: Session | null;
   userData: UserData | null;
+  hasAccess: boolean;
   loading: boolean;
   signOut: () => Promise<void>;
   refetchUserData: () => Promise<void>;
@@ -34,6 +36,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [userData, setUserData] = useState<UserData | null>(null);
+  const [hasAccess, setHasAccess] = useState(false);
   const [loading, setLoading] = useState(true);
 
   const fetchUserData = async (userEmail: string) => {
@@ -48,8 +51,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         console.error('Error fetching user data:', error);
         return;
       }
+
+      // Access may come from the global flag or from per-subject grants
+      const { data: anyAccess, error: accessError } = await supabase.rpc('user_has_any_access');
+
+      if (accessError) {
+        console.error('Error checking user access:', accessError);
+      }
       
       setUserData(data as UserData);
+      setHasAccess(!!anyAccess);
     } catch (error) {
       console.error('Error fetching user data:', error);
     }
@@ -69,6 +80,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           }, 0);
         } else {
           setUserData(null);
+          setHasAccess(false);
         }
       }
     );
@@ -104,6 +116,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     user,
     session,
     userData,
+    hasAccess,
     loading,
     signOut,
     refetchUserData,
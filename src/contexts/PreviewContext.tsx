@@ -0,0 +1,45 @@
+import React, { createContext, useContext, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { can } from '@/lib/roles';
+
+const STORAGE_KEY = 'preview-as-learner';
+
+interface PreviewContextType {
+  // True while a content manager browses with unreleased content hidden
+  previewAsLearner: boolean;
+  setPreviewAsLearner: (preview: boolean) => void;
+}
+
+const PreviewContext = createContext<PreviewContextType | undefined>(undefined);
+
+export const usePreview = () => {
+  const context = useContext(PreviewContext);
+  if (context === undefined) {
+    throw new Error('usePreview must be used within a PreviewProvider');
+  }
+  return context;
+};
+
+export const PreviewProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { userData } = useAuth();
+  // Kept in localStorage so the preview survives full page loads
+  const [stored, setStored] = useState(() => localStorage.getItem(STORAGE_KEY) === 'true');
+
+  const setPreviewAsLearner = (preview: boolean) => {
+    if (preview) {
+      localStorage.setItem(STORAGE_KEY, 'true');
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    setStored(preview);
+  };
+
+  // Learners never see unreleased content, so for them the flag means nothing
+  const previewAsLearner = stored && can(userData?.role, 'manage_content');
+
+  return (
+    <PreviewContext.Provider value={{ previewAsLearner, setPreviewAsLearner }}>
+      {children}
+    </PreviewContext.Provider>
+  );
+};
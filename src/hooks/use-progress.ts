@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ContentRef,
+  ContentType,
+  ProgressRecord,
+  completionPercent,
+  progressKey,
+} from '@/lib/progress';
+
+export function useProgress() {
+  const { userData } = useAuth();
+  const [records, setRecords] = useState<ProgressRecord[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!userData?.id) {
+      setRecords([]);
+      return;
+    }
+
+    const fetchProgress = async () => {
+      const { data, error } = await supabase
+        .from('progress')
+        .select('*')
+        .eq('user_id', userData.id);
+
+      if (error) {
+        // Carry on without saved progress rather than leave pages waiting on it
+        console.error('Error fetching progress:', error);
+        setLoaded(true);
+        return;
+      }
+
+      setRecords((data || []) as ProgressRecord[]);
+      setLoaded(true);
+    };
+
+    fetchProgress();
+  }, [userData?.id]);
+
+  const byKey = useMemo(
+    () => new Map(records.map(record => [progressKey(record.content_type, record.content_id), record])),
+    [records]
+  );
+
+  const saveRecord = useCallback(async (type: ContentType, id: string, changes: Partial<ProgressRecord>) => {
+    if (!userData?.id) return;
+
+    const { data, error } = await supabase
+      .from('progress')
+      .upsert(
+        { user_id: userData.id, content_type: type, content_id: id, ...changes },
+        { onConflict: 'user_id,content_type,content_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving progress:', error);
+      return;
+    }
+
+    setRecords(current => [
+      ...current.filter(record => !(record.content_type === type && record.content_id === id)),
+      data as ProgressRecord,
+    ]);
+  }, [userData?.id]);
+
+  const getRecord = useCallback(
+    (type: ContentType, id: string) => byKey.get(progressKey(type, id)),
+    [byKey]
+  );
+
+  const isCompleted = useCallback(
+    (type: ContentType, id: string) => !!getRecord(type, id)?.completed_at,
+    [getRecord]
+  );
+
+  const markOpened = useCallback(
+    (type: ContentType, id: string) => saveRecord(type, id, { opened_at: new Date().toISOString() }),
+    [saveRecord]
+  );
+
+  const setCompleted = useCallback(
+    (type: ContentType, id: string, completed: boolean) =>
+      saveRecord(type, id, { completed_at: completed ? new Date().toISOString() : null }),
+    [saveRecord]
+  );
+
+  const percentComplete = useCallback(
+    (items: ContentRef[]) =>
+      completionPercent(items.filter(item => isCompleted(item.type, item.id)).length, items.length),
+    [isCompleted]
+  );
+
+  return { records, loaded, getRecord, saveRecord, isCompleted, markOpened, setCompleted, percentComplete };
+}
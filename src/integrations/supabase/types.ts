@@ -14,25 +14,160 @@ export type Database = {
   }
   public: {
     Tables: {
+      access_requests: {
+        Row: {
+          admin_message: string | null
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          full_name: string | null
+          id: string
+          institution: string | null
+          kind: string
+          reason: string | null
+          status: string
+          subject_ids: string[]
+          user_id: string
+        }
+        Insert: {
+          admin_message?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          full_name?: string | null
+          id?: string
+          institution?: string | null
+          kind?: string
+          reason?: string | null
+          status?: string
+          subject_ids?: string[]
+          user_id: string
+        }
+        Update: {
+          admin_message?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          full_name?: string | null
+          id?: string
+          institution?: string | null
+          kind?: string
+          reason?: string | null
+          status?: string
+          subject_ids?: string[]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          entity: string
+          entity_id: string | null
+          id: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          entity: string
+          entity_id?: string | null
+          id?: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          entity?: string
+          entity_id?: string | null
+          id?: string
+        }
+        Relationships: []
+      }
+      auto_approval_rules: {
+        Row: {
+          created_at: string
+          domain_pattern: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          subject_ids: string[]
+        }
+        Insert: {
+          created_at?: string
+          domain_pattern: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          subject_ids?: string[]
+        }
+        Update: {
+          created_at?: string
+          domain_pattern?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          subject_ids?: string[]
+        }
+        Relationships: []
+      }
       chapters: {
         Row: {
           created_at: string
+          deleted_at: string | null
           description: string | null
           id: string
+          position: number
+          publish_at: string | null
+          search_vector: unknown | null
+          status: Database["public"]["Enums"]["content_status"]
           subject_id: string
           title: string
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
+          position?: number
+          publish_at?: string | null
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["content_status"]
           subject_id: string
           title: string
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
+          position?: number
+          publish_at?: string | null
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["content_status"]
           subject_id?: string
           title?: string
         }
@@ -46,26 +181,186 @@ export type Database = {
           },
         ]
       }
+      invite_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number
+          subject_id: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number
+          subject_id?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number
+          subject_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invite_codes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invite_codes_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invite_redemptions: {
+        Row: {
+          id: string
+          invite_code_id: string
+          redeemed_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          invite_code_id: string
+          redeemed_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          invite_code_id?: string
+          redeemed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invite_redemptions_invite_code_id_fkey"
+            columns: ["invite_code_id"]
+            isOneToOne: false
+            referencedRelation: "invite_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invite_redemptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_pages: {
+        Row: {
+          content: string
+          note_id: string
+          page_number: number
+          search_vector: unknown | null
+        }
+        Insert: {
+          content: string
+          note_id: string
+          page_number: number
+          search_vector?: unknown | null
+        }
+        Update: {
+          content?: string
+          note_id?: string
+          page_number?: number
+          search_vector?: unknown | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_pages_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_text_extractions: {
+        Row: {
+          attempts: number
+          error: string | null
+          extracted_at: string
+          note_id: string
+          page_count: number
+          pdf_path: string
+        }
+        Insert: {
+          attempts?: number
+          error?: string | null
+          extracted_at?: string
+          note_id: string
+          page_count?: number
+          pdf_path: string
+        }
+        Update: {
+          attempts?: number
+          error?: string | null
+          extracted_at?: string
+          note_id?: string
+          page_count?: number
+          pdf_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_text_extractions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: true
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notes: {
         Row: {
           chapter_id: string
           created_at: string
+          deleted_at: string | null
           id: string
-          pdf_url: string
+          pdf_path: string
+          position: number
+          publish_at: string | null
+          search_vector: unknown | null
+          status: Database["public"]["Enums"]["content_status"]
           title: string
         }
         Insert: {
           chapter_id: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
-          pdf_url: string
+          pdf_path: string
+          position?: number
+          publish_at?: string | null
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["content_status"]
           title: string
         }
         Update: {
           chapter_id?: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
-          pdf_url?: string
+          pdf_path?: string
+          position?: number
+          publish_at?: string | null
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["content_status"]
           title?: string
         }
         Relationships: [
@@ -78,78 +373,315 @@ export type Database = {
           },
         ]
       }
+      progress: {
+        Row: {
+          completed_at: string | null
+          content_id: string
+          content_type: string
+          created_at: string
+          id: string
+          last_page: number | null
+          opened_at: string | null
+          position_seconds: number | null
+          updated_at: string
+          user_id: string
+          watched_percent: number | null
+        }
+        Insert: {
+          completed_at?: string | null
+          content_id: string
+          content_type: string
+          created_at?: string
+          id?: string
+          last_page?: number | null
+          opened_at?: string | null
+          position_seconds?: number | null
+          updated_at?: string
+          user_id: string
+          watched_percent?: number | null
+        }
+        Update: {
+          completed_at?: string | null
+          content_id?: string
+          content_type?: string
+          created_at?: string
+          id?: string
+          last_page?: number | null
+          opened_at?: string | null
+          position_seconds?: number | null
+          updated_at?: string
+          user_id?: string
+          watched_percent?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "progress_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      storage_deletions: {
+        Row: {
+          attempts: number
+          bucket_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          object_name: string
+        }
+        Insert: {
+          attempts?: number
+          bucket_id: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          object_name: string
+        }
+        Update: {
+          attempts?: number
+          bucket_id?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          object_name?: string
+        }
+        Relationships: []
+      }
+      subject_access: {
+        Row: {
+          created_at: string
+          ends_at: string | null
+          id: string
+          starts_at: string | null
+          subject_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ends_at?: string | null
+          id?: string
+          starts_at?: string | null
+          subject_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string | null
+          id?: string
+          starts_at?: string | null
+          subject_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subject_access_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subject_access_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subjects: {
         Row: {
           created_at: string
+          deleted_at: string | null
           description: string | null
           id: string
           image_url: string | null
           name: string
+          publish_at: string | null
+          search_vector: unknown | null
+          status: Database["public"]["Enums"]["content_status"]
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
           image_url?: string | null
           name: string
+          publish_at?: string | null
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["content_status"]
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
           image_url?: string | null
           name?: string
+          publish_at?: string | null
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["content_status"]
         }
         Relationships: []
       }
       users: {
         Row: {
           access: boolean
+          access_expires_at: string | null
           created_at: string
           email: string
           id: string
-          is_admin: boolean
-          role: string
+          renewal_requested_at: string | null
+          role: Database["public"]["Enums"]["app_role"]
         }
         Insert: {
           access?: boolean
+          access_expires_at?: string | null
           created_at?: string
           email: string
           id?: string
-          is_admin?: boolean
-          role?: string
+          renewal_requested_at?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
         }
         Update: {
           access?: boolean
+          access_expires_at?: string | null
           created_at?: string
           email?: string
           id?: string
-          is_admin?: boolean
-          role?: string
+          renewal_requested_at?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
         }
         Relationships: []
       }
+      video_sections: {
+        Row: {
+          created_at: string
+          id: string
+          start_seconds: number
+          title: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          start_seconds: number
+          title: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          start_seconds?: number
+          title?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_sections_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_transcodes: {
+        Row: {
+          attempts: number
+          claimed_at: string | null
+          duration_seconds: number | null
+          error: string | null
+          playlist_path: string | null
+          poster_path: string | null
+          renditions: Json
+          source_path: string
+          status: Database["public"]["Enums"]["transcode_status"]
+          updated_at: string
+          video_id: string
+        }
+        Insert: {
+          attempts?: number
+          claimed_at?: string | null
+          duration_seconds?: number | null
+          error?: string | null
+          playlist_path?: string | null
+          poster_path?: string | null
+          renditions?: Json
+          source_path: string
+          status?: Database["public"]["Enums"]["transcode_status"]
+          updated_at?: string
+          video_id: string
+        }
+        Update: {
+          attempts?: number
+          claimed_at?: string | null
+          duration_seconds?: number | null
+          error?: string | null
+          playlist_path?: string | null
+          poster_path?: string | null
+          renditions?: Json
+          source_path?: string
+          status?: Database["public"]["Enums"]["transcode_status"]
+          updated_at?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_transcodes_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: true
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       videos: {
         Row: {
           chapter_id: string
           created_at: string
+          deleted_at: string | null
           id: string
+          position: number
+          provider: Database["public"]["Enums"]["video_provider"] | null
+          provider_video_id: string | null
+          publish_at: string | null
+          search_vector: unknown | null
+          source_url: string
+          status: Database["public"]["Enums"]["content_status"]
           title: string
-          youtube_url: string
         }
         Insert: {
           chapter_id: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
+          position?: number
+          provider?: Database["public"]["Enums"]["video_provider"] | null
+          provider_video_id?: string | null
+          publish_at?: string | null
+          search_vector?: unknown | null
+          source_url: string
+          status?: Database["public"]["Enums"]["content_status"]
           title: string
-          youtube_url: string
         }
         Update: {
           chapter_id?: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
+          position?: number
+          provider?: Database["public"]["Enums"]["video_provider"] | null
+          provider_video_id?: string | null
+          publish_at?: string | null
+          search_vector?: unknown | null
+          source_url?: string
+          status?: Database["public"]["Enums"]["content_status"]
           title?: string
-          youtube_url?: string
         }
         Relationships: [
           {
@@ -166,17 +698,203 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_manage_content: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      can_moderate: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      claim_video_transcode: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          attempts: number
+          claimed_at: string | null
+          duration_seconds: number | null
+          error: string | null
+          playlist_path: string | null
+          poster_path: string | null
+          renditions: Json
+          source_path: string
+          status: Database["public"]["Enums"]["transcode_status"]
+          updated_at: string
+          video_id: string
+        }[]
+      }
+      current_user_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      decide_access_request: {
+        Args: {
+          p_access_expires_at?: string
+          p_approve: boolean
+          p_message?: string
+          p_request_id: string
+        }
+        Returns: undefined
+      }
+      duplicate_subject: {
+        Args: { p_name: string; p_pdf_paths?: Json; p_subject_id: string }
+        Returns: string
+      }
+      email_matches_domain: {
+        Args: { p_email: string; p_pattern: string }
+        Returns: boolean
+      }
+      enqueue_storage_orphans: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      has_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      import_course: {
+        Args: { p_course: Json }
+        Returns: Json
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_released: {
+        Args: { p_publish_at: string; p_status: Database["public"]["Enums"]["content_status"] }
+        Returns: boolean
+      }
+      list_subject_catalog: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          name: string
+        }[]
+      }
+      pending_note_text_extractions: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          id: string
+          pdf_path: string
+        }[]
+      }
+      purge_content: {
+        Args: { p_id: string; p_table: string }
+        Returns: undefined
+      }
+      purge_deleted_content: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      redeem_invite_code: {
+        Args: { p_code: string }
+        Returns: undefined
+      }
+      reorder_content: {
+        Args: { p_ids: string[]; p_table: string }
+        Returns: undefined
+      }
+      request_access_renewal: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      restore_content: {
+        Args: { p_id: string; p_table: string }
+        Returns: undefined
+      }
+      restore_course: {
+        Args: { p_subject: Json }
+        Returns: string
+      }
+      retry_video_transcode: {
+        Args: { p_video_id: string }
+        Returns: undefined
+      }
+      search_content: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          chapter_id: string
+          chapter_title: string
+          id: string
+          kind: string
+          rank: number
+          released: boolean
+          subject_id: string
+          subject_name: string
+          title: string
+        }[]
+      }
+      search_note_pages: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          chapter_id: string
+          chapter_title: string
+          note_id: string
+          note_title: string
+          page_number: number
+          rank: number
+          released: boolean
+          snippet: string
+          subject_id: string
+          subject_name: string
+        }[]
+      }
+      set_video_sections: {
+        Args: { p_sections: Json; p_video_id: string }
+        Returns: undefined
+      }
+      soft_delete_content: {
+        Args: { p_id: string; p_table: string }
+        Returns: undefined
+      }
+      storage_report: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          note_id: string
+          note_title: string
+          object_name: string
+          size: number
+        }[]
+      }
+      to_prefix_tsquery: {
+        Args: { p_query: string }
+        Returns: unknown
+      }
       user_has_access: {
         Args: { user_email: string }
         Returns: boolean
       }
+      user_has_any_access: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      user_has_chapter_access: {
+        Args: { p_chapter_id: string }
+        Returns: boolean
+      }
+      user_has_pdf_access: {
+        Args: { p_object_name: string }
+        Returns: boolean
+      }
+      user_has_subject_access: {
+        Args: { p_subject_id: string }
+        Returns: boolean
+      }
+      user_has_video_file_access: {
+        Args: { p_object_name: string }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "editor" | "moderator" | "learner"
+      content_status: "draft" | "scheduled" | "published"
+      transcode_status: "pending" | "processing" | "ready" | "failed"
+      video_provider: "youtube" | "vimeo" | "storage"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -303,6 +1021,11 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "editor", "moderator", "learner"],
+      content_status: ["draft", "scheduled", "published"],
+      transcode_status: ["pending", "processing", "ready", "failed"],
+      video_provider: ["youtube", "vimeo", "storage"],
+    },
   },
 } as const
@@ -0,0 +1,18 @@
+import { differenceInCalendarDays } from 'date-fns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isExpired = (date: string | null) =>
+  !!date && new Date(date).getTime() <= Date.now();
+
+export const daysUntil = (date: string) =>
+  Math.ceil((new Date(date).getTime() - Date.now()) / DAY_MS);
+
+export const expiryLabel = (date: string) => {
+  if (isExpired(date)) return 'Expired';
+  // Calendar days, so access ending tonight reads as today
+  const days = differenceInCalendarDays(new Date(date), new Date());
+  if (days <= 0) return 'Expires today';
+  if (days === 1) return 'Expires tomorrow';
+  return `Expires in ${days} days`;
+};
@@ -0,0 +1,242 @@
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { PDF_BUCKET, uploadPdfWithProgress } from '@/lib/storage';
+import { VideoSection } from '@/lib/video-sections';
+import { videoSourceColumns } from '@/lib/video-source';
+
+export const ARCHIVE_FORMAT = 'course-archive';
+export const ARCHIVE_VERSION = 3;
+const MANIFEST_FILE = 'manifest.json';
+
+export interface ArchiveNote {
+  id: string;
+  title: string;
+  position: number;
+  // Path of the PDF inside the ZIP
+  file: string;
+}
+
+// Uploaded video files are referenced by their storage path, not copied into the
+// archive; restoring fails if a referenced file has since been deleted
+export interface ArchiveVideo {
+  id: string;
+  title: string;
+  source_url: string;
+  // Version 1 archives only had YouTube links
+  youtube_url?: string;
+  position: number;
+  // Version 2 archives had no outlines
+  sections?: VideoSection[];
+}
+
+export interface ArchiveChapter {
+  id: string;
+  title: string;
+  description: string | null;
+  position: number;
+  notes: ArchiveNote[];
+  videos: ArchiveVideo[];
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  subject: {
+    id: string;
+    name: string;
+    description: string | null;
+    image_url: string | null;
+    chapters: ArchiveChapter[];
+  };
+}
+
+export interface CourseArchive {
+  manifest: ArchiveManifest;
+  zip: JSZip;
+}
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'subject';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Trashed content is left out; the archive mirrors what learners currently see
+export const exportSubjectArchive = async (subjectId: string) => {
+  const { data: subject, error: subjectError } = await supabase
+    .from('subjects')
+    .select('id, name, description, image_url')
+    .eq('id', subjectId)
+    .single();
+
+  if (subjectError) throw subjectError;
+
+  const { data: chapters, error: chaptersError } = await supabase
+    .from('chapters')
+    .select('id, title, description, position')
+    .eq('subject_id', subjectId)
+    .is('deleted_at', null)
+    .order('position');
+
+  if (chaptersError) throw chaptersError;
+
+  const chapterIds = (chapters || []).map(c => c.id);
+  const [notesResult, videosResult] = await Promise.all([
+    supabase
+      .from('notes')
+      .select('id, chapter_id, title, pdf_path, position')
+      .in('chapter_id', chapterIds)
+      .is('deleted_at', null)
+      .order('position'),
+    supabase
+      .from('videos')
+      .select('id, chapter_id, title, source_url, position')
+      .in('chapter_id', chapterIds)
+      .is('deleted_at', null)
+      .order('position'),
+  ]);
+
+  if (notesResult.error) throw notesResult.error;
+  if (videosResult.error) throw videosResult.error;
+
+  const { data: sections, error: sectionsError } = await supabase
+    .from('video_sections')
+    .select('video_id, title, start_seconds')
+    .in('video_id', (videosResult.data || []).map(v => v.id))
+    .order('start_seconds');
+
+  if (sectionsError) throw sectionsError;
+
+  const zip = new JSZip();
+  const notes = notesResult.data || [];
+  for (const note of notes) {
+    const { data, error } = await supabase.storage.from(PDF_BUCKET).download(note.pdf_path);
+    if (error) throw new Error(`Could not download the PDF for "${note.title}"`);
+    zip.file(`pdfs/${note.id}.pdf`, data);
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    subject: {
+      ...subject,
+      chapters: (chapters || []).map(chapter => ({
+        ...chapter,
+        notes: notes
+          .filter(n => n.chapter_id === chapter.id)
+          .map(n => ({ id: n.id, title: n.title, position: n.position, file: `pdfs/${n.id}.pdf` })),
+        videos: (videosResult.data || [])
+          .filter(v => v.chapter_id === chapter.id)
+          .map(v => ({
+            id: v.id,
+            title: v.title,
+            source_url: v.source_url,
+            position: v.position,
+            sections: (sections || [])
+              .filter(section => section.video_id === v.id)
+              .map(section => ({ title: section.title, start_seconds: section.start_seconds })),
+          })),
+      })),
+    },
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  downloadBlob(blob, `${slugify(subject.name)}-${manifest.exported_at.slice(0, 10)}.zip`);
+};
+
+export const readCourseArchive = async (file: File): Promise<CourseArchive> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('The file is not a ZIP archive');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error(`The archive has no ${MANIFEST_FILE}`);
+
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error(`${MANIFEST_FILE} is not valid JSON`);
+  }
+
+  if (manifest.format !== ARCHIVE_FORMAT || !manifest.subject?.name) {
+    throw new Error('The archive was not exported from this app');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error('The archive was exported by a newer version of this app');
+  }
+
+  const missing = manifest.subject.chapters
+    .flatMap(c => c.notes)
+    .find(n => !zip.file(n.file));
+  if (missing) throw new Error(`The archive is missing the PDF for "${missing.title}"`);
+
+  const unsupported = manifest.subject.chapters
+    .flatMap(c => c.videos)
+    .find(v => !videoSourceColumns(v.source_url ?? v.youtube_url ?? ''));
+  if (unsupported) throw new Error(`The video "${unsupported.title}" has an unsupported link`);
+
+  return { manifest, zip };
+};
+
+// Archive ids are never reused: the database assigns new ones, so the same archive
+// can be restored next to the original or into another project
+export const restoreCourseArchive = async (
+  { manifest, zip }: CourseArchive,
+  name: string,
+  onProgress: (done: number, total: number) => void
+) => {
+  const notes = manifest.subject.chapters.flatMap(c => c.notes);
+  const uploadedPaths: Record<string, string> = {};
+
+  try {
+    for (const [index, note] of notes.entries()) {
+      const blob = await zip.file(note.file)!.async('blob');
+      const pdf = new File([blob], `${note.id}.pdf`, { type: 'application/pdf' });
+      uploadedPaths[note.id] = await uploadPdfWithProgress(pdf, () => {});
+      onProgress(index + 1, notes.length);
+    }
+
+    const byPosition = <T extends { position: number }>(items: T[]) =>
+      [...items].sort((a, b) => a.position - b.position);
+
+    const { data, error } = await supabase.rpc('restore_course', {
+      p_subject: {
+        name,
+        description: manifest.subject.description,
+        image_url: manifest.subject.image_url,
+        chapters: byPosition(manifest.subject.chapters).map(chapter => ({
+          title: chapter.title,
+          description: chapter.description,
+          notes: byPosition(chapter.notes).map(n => ({ title: n.title, pdf_path: uploadedPaths[n.id] })),
+          videos: byPosition(chapter.videos).map(v => ({
+            title: v.title,
+            ...videoSourceColumns(v.source_url ?? v.youtube_url ?? ''),
+            sections: (v.sections ?? []).map(section => ({ title: section.title, start_seconds: section.start_seconds })),
+          })),
+        })),
+      } as Json,
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    // Nothing references the uploads yet, so don't leave them for the orphan sweep
+    const paths = Object.values(uploadedPaths);
+    if (paths.length > 0) await supabase.storage.from(PDF_BUCKET).remove(paths);
+    throw error;
+  }
+};
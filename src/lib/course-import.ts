@@ -0,0 +1,398 @@
+import { VideoSection, parseClockTime, parseSectionList, sortSections } from '@/lib/video-sections';
+import { VideoProvider, parseVideoSource } from '@/lib/video-source';
+
+// The course shapes below are sent to import_course as they are. They are type
+// aliases rather than interfaces so they can be passed as Json.
+
+// provider and provider_video_id are filled in from source_url when the plan is built
+export type ImportVideo = {
+  title: string;
+  source_url: string;
+  provider?: VideoProvider;
+  provider_video_id?: string;
+  // Left out to keep an existing video's outline as it is
+  sections?: { title: string; start_seconds: number }[];
+};
+
+export type ImportNote = {
+  title: string;
+  pdf_path: string;
+};
+
+export type ImportChapter = {
+  title: string;
+  description: string | null;
+  videos: ImportVideo[];
+  notes: ImportNote[];
+};
+
+export type ImportSubject = {
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  chapters: ImportChapter[];
+};
+
+export type CourseImport = {
+  subjects: ImportSubject[];
+};
+
+export interface ExistingCourse {
+  subjects: { id: string; name: string; description: string | null; image_url: string | null }[];
+  chapters: { id: string; subject_id: string; title: string; description: string | null }[];
+  notes: { id: string; chapter_id: string; title: string; pdf_path: string }[];
+  videos: { id: string; chapter_id: string; title: string; source_url: string }[];
+  sections: { video_id: string; title: string; start_seconds: number }[];
+}
+
+export type PlanAction = 'create' | 'update' | 'unchanged' | 'duplicate' | 'invalid';
+
+export interface PlanRow {
+  key: string;
+  kind: 'subject' | 'chapter' | 'video' | 'note';
+  depth: number;
+  label: string;
+  action: PlanAction;
+  message: string | null;
+}
+
+export interface ImportPlan {
+  rows: PlanRow[];
+  // What import_course receives: duplicates dropped, invalid plans never sent
+  payload: CourseImport;
+  counts: Record<PlanAction, number>;
+}
+
+export const CSV_COLUMNS = [
+  'subject',
+  'subject_description',
+  'subject_image_url',
+  'chapter',
+  'chapter_description',
+  'type',
+  'title',
+  'url',
+  'sections',
+];
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF line endings
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const optionalText = (value: unknown) => text(value) || null;
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const sameSections = (a: VideoSection[], b: VideoSection[]) => {
+  const [left, right] = [sortSections(a), sortSections(b)];
+  return left.length === right.length &&
+    left.every((section, i) => section.title === right[i].title && section.start_seconds === right[i].start_seconds);
+};
+
+// JSON outlines are either a pasted chapter list or [{ "title", "start_seconds" }],
+// where the start may also be written as 14:32
+const readSections = (value: unknown, videoLabel: string): VideoSection[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return parseSectionList(value);
+  if (!Array.isArray(value)) throw new Error(`${videoLabel}: sections must be a list`);
+
+  return sortSections(value.map((section, index) => {
+    const title = text(section?.title);
+    const start = typeof section?.start_seconds === 'number'
+      ? Math.floor(section.start_seconds)
+      : parseClockTime(text(section?.start_seconds));
+    if (!title || start === null || start < 0) {
+      throw new Error(`${videoLabel}, section ${index + 1}: needs a title and a start time like 14:32`);
+    }
+    return { title, start_seconds: start };
+  }));
+};
+
+// Rows for the same subject or chapter are merged, in both formats
+const findOrAdd = <T>(list: T[], match: (item: T) => boolean, create: () => T) => {
+  const existing = list.find(match);
+  if (existing) return existing;
+  const created = create();
+  list.push(created);
+  return created;
+};
+
+const addChapter = (subject: ImportSubject, title: string, description: string | null) => {
+  const chapter = findOrAdd(
+    subject.chapters,
+    c => sameName(c.title, title),
+    () => ({ title, description, videos: [], notes: [] })
+  );
+  chapter.description = chapter.description ?? description;
+  return chapter;
+};
+
+const addSubject = (course: CourseImport, name: string, description: string | null, imageUrl: string | null) => {
+  const subject = findOrAdd(
+    course.subjects,
+    s => sameName(s.name, name),
+    () => ({ name, description, image_url: imageUrl, chapters: [] })
+  );
+  subject.description = subject.description ?? description;
+  subject.image_url = subject.image_url ?? imageUrl;
+  return subject;
+};
+
+const fromCsv = (content: string): CourseImport => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) throw new Error('The CSV file is empty');
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const missing = ['subject', 'chapter'].filter(c => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new Error(`Missing CSV column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+
+  const course: CourseImport = { subjects: [] };
+  rows.forEach((cells, index) => {
+    const cell = (column: string) => text(cells[columns.indexOf(column)]);
+    const subjectName = cell('subject');
+    if (!subjectName) throw new Error(`Row ${index + 2}: subject is required`);
+
+    const subject = addSubject(
+      course,
+      subjectName,
+      cell('subject_description') || null,
+      cell('subject_image_url') || null
+    );
+
+    const chapterTitle = cell('chapter');
+    if (!chapterTitle) return;
+    const chapter = addChapter(subject, chapterTitle, cell('chapter_description') || null);
+
+    const type = cell('type').toLowerCase();
+    if (type === 'video') {
+      // One "14:32 Derivation" line per section, as in a YouTube description
+      const sections = cell('sections');
+      chapter.videos.push({
+        title: cell('title'),
+        source_url: cell('url'),
+        sections: sections ? parseSectionList(sections) : undefined,
+      });
+    } else if (type === 'note') {
+      chapter.notes.push({ title: cell('title'), pdf_path: cell('url') });
+    } else if (type) {
+      throw new Error(`Row ${index + 2}: type must be "video" or "note"`);
+    }
+  });
+
+  return course;
+};
+
+const fromJson = (content: string): CourseImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const subjects = Array.isArray(data) ? data : (data as { subjects?: unknown })?.subjects;
+  if (!Array.isArray(subjects)) throw new Error('Expected a "subjects" array');
+
+  const course: CourseImport = { subjects: [] };
+  subjects.forEach((s, index) => {
+    const name = text(s?.name);
+    if (!name) throw new Error(`Subject ${index + 1}: name is required`);
+
+    const subject = addSubject(course, name, optionalText(s.description), optionalText(s.image_url));
+    (Array.isArray(s.chapters) ? s.chapters : []).forEach((c, chapterIndex) => {
+      const title = text(c?.title);
+      if (!title) throw new Error(`${name}, chapter ${chapterIndex + 1}: title is required`);
+
+      const chapter = addChapter(subject, title, optionalText(c.description));
+      (Array.isArray(c.videos) ? c.videos : []).forEach((v, videoIndex) => {
+        chapter.videos.push({
+          title: text(v?.title),
+          source_url: text(v?.source_url ?? v?.youtube_url ?? v?.url),
+          sections: readSections(v?.sections, `${title}, video ${videoIndex + 1}`),
+        });
+      });
+      (Array.isArray(c.notes) ? c.notes : []).forEach(n => {
+        chapter.notes.push({ title: text(n?.title), pdf_path: text(n?.pdf_path) });
+      });
+    });
+  });
+
+  return course;
+};
+
+export const parseCourseFile = (fileName: string, content: string): CourseImport => {
+  const course = /\.csv$/i.test(fileName) ? fromCsv(content) : fromJson(content);
+  if (course.subjects.length === 0) throw new Error('The file does not describe any subjects');
+  return course;
+};
+
+const changeLabel = (fields: string[]) => `Changes ${fields.join(', ')}`;
+
+// Mirrors the matching in import_course: by name or title, case-insensitively, within the parent
+export const buildImportPlan = (course: CourseImport, existing: ExistingCourse): ImportPlan => {
+  const rows: PlanRow[] = [];
+  const payload: CourseImport = { subjects: [] };
+
+  course.subjects.forEach((subject, s) => {
+    const current = existing.subjects.find(e => sameName(e.name, subject.name));
+    const subjectChanges = current
+      ? [
+        subject.description !== null && subject.description !== current.description && 'description',
+        subject.image_url !== null && subject.image_url !== current.image_url && 'image',
+      ].filter(Boolean) as string[]
+      : [];
+    rows.push({
+      key: `s${s}`,
+      kind: 'subject',
+      depth: 0,
+      label: subject.name,
+      action: !current ? 'create' : subjectChanges.length ? 'update' : 'unchanged',
+      message: subjectChanges.length ? changeLabel(subjectChanges) : null,
+    });
+
+    const subjectPayload: ImportSubject = { ...subject, chapters: [] };
+    payload.subjects.push(subjectPayload);
+
+    subject.chapters.forEach((chapter, c) => {
+      const currentChapter = current && existing.chapters.find(e =>
+        e.subject_id === current.id && sameName(e.title, chapter.title)
+      );
+      const chapterChanged = !!currentChapter && chapter.description !== null &&
+        chapter.description !== currentChapter.description;
+      rows.push({
+        key: `s${s}c${c}`,
+        kind: 'chapter',
+        depth: 1,
+        label: chapter.title,
+        action: !currentChapter ? 'create' : chapterChanged ? 'update' : 'unchanged',
+        message: chapterChanged ? changeLabel(['description']) : null,
+      });
+
+      const chapterPayload: ImportChapter = { ...chapter, videos: [], notes: [] };
+      subjectPayload.chapters.push(chapterPayload);
+
+      chapter.videos.forEach((video, v) => {
+        const key = `s${s}c${c}v${v}`;
+        const label = video.title || '(untitled video)';
+
+        const source = parseVideoSource(video.source_url);
+        if (!video.title || !source) {
+          rows.push({
+            key, kind: 'video', depth: 2, label, action: 'invalid',
+            message: !video.title ? 'Title is required' : `Not a supported video link: ${video.source_url || '(empty)'}`,
+          });
+          return;
+        }
+
+        const duplicate = chapterPayload.videos.find(p =>
+          sameName(p.title, video.title) || p.source_url === source.url
+        );
+        if (duplicate) {
+          rows.push({ key, kind: 'video', depth: 2, label, action: 'duplicate', message: `Same as "${duplicate.title}" above; skipped` });
+          return;
+        }
+
+        const currentVideo = currentChapter && existing.videos.find(e =>
+          e.chapter_id === currentChapter.id && sameName(e.title, video.title)
+        );
+        const elsewhere = existing.videos.find(e => e.source_url === source.url && e.id !== currentVideo?.id);
+        const videoChanges = currentVideo
+          ? [
+            currentVideo.source_url !== source.url && 'URL',
+            video.sections && !sameSections(video.sections, existing.sections.filter(e => e.video_id === currentVideo.id)) && 'outline',
+          ].filter(Boolean) as string[]
+          : [];
+        rows.push({
+          key, kind: 'video', depth: 2, label,
+          action: !currentVideo ? 'create' : videoChanges.length ? 'update' : 'unchanged',
+          message: elsewhere
+            ? `Already used by "${elsewhere.title}"`
+            : videoChanges.length ? changeLabel(videoChanges) : null,
+        });
+        chapterPayload.videos.push({
+          title: video.title,
+          source_url: source.url,
+          provider: source.provider,
+          provider_video_id: source.videoId,
+          sections: video.sections,
+        });
+      });
+
+      chapter.notes.forEach((note, n) => {
+        const key = `s${s}c${c}n${n}`;
+        const label = note.title || '(untitled note)';
+
+        if (!note.title || !note.pdf_path) {
+          rows.push({
+            key, kind: 'note', depth: 2, label, action: 'invalid',
+            message: !note.title ? 'Title is required' : 'A PDF path in the pdfs bucket is required',
+          });
+          return;
+        }
+
+        const duplicate = chapterPayload.notes.find(p => sameName(p.title, note.title));
+        if (duplicate) {
+          rows.push({ key, kind: 'note', depth: 2, label, action: 'duplicate', message: 'Listed twice in this chapter; skipped' });
+          return;
+        }
+
+        const currentNote = currentChapter && existing.notes.find(e =>
+          e.chapter_id === currentChapter.id && sameName(e.title, note.title)
+        );
+        const pathChanged = !!currentNote && currentNote.pdf_path !== note.pdf_path;
+        rows.push({
+          key, kind: 'note', depth: 2, label,
+          action: !currentNote ? 'create' : pathChanged ? 'update' : 'unchanged',
+          message: pathChanged ? changeLabel(['PDF']) : null,
+        });
+        chapterPayload.notes.push(note);
+      });
+    });
+  });
+
+  const counts: Record<PlanAction, number> = { create: 0, update: 0, unchanged: 0, duplicate: 0, invalid: 0 };
+  rows.forEach(row => counts[row.action]++);
+
+  return { rows, payload, counts };
+};
@@ -0,0 +1,26 @@
+export type ContentType = 'note' | 'video';
+
+export interface ProgressRecord {
+  id: string;
+  user_id: string;
+  content_type: ContentType;
+  content_id: string;
+  last_page: number | null;
+  position_seconds: number | null;
+  watched_percent: number | null;
+  opened_at: string | null;
+  completed_at: string | null;
+}
+
+export interface ContentRef {
+  type: ContentType;
+  id: string;
+}
+
+// Videos count as complete once this much of them has been watched
+export const WATCH_COMPLETE_PERCENT = 90;
+
+export const progressKey = (type: ContentType, id: string) => `${type}:${id}`;
+
+export const completionPercent = (completed: number, total: number) =>
+  total === 0 ? 0 : Math.round((completed / total) * 100);
@@ -0,0 +1,24 @@
+import { format } from 'date-fns';
+import { Constants, Database } from '@/integrations/supabase/types';
+
+export type ContentStatus = Database['public']['Enums']['content_status'];
+
+export const CONTENT_STATUSES = Constants.public.Enums.content_status;
+
+export interface Releasable {
+  status: ContentStatus;
+  publish_at: string | null;
+}
+
+// Mirrors is_released() in the database
+export const isReleased = ({ status, publish_at }: Releasable) =>
+  status === 'published' ||
+  (status === 'scheduled' && !!publish_at && new Date(publish_at).getTime() <= Date.now());
+
+export const statusLabel = (item: Releasable) => {
+  if (item.status === 'draft') return 'Draft';
+  if (item.status === 'scheduled' && !isReleased(item) && item.publish_at) {
+    return `Scheduled for ${format(new Date(item.publish_at), 'PP p')}`;
+  }
+  return 'Published';
+};
@@ -0,0 +1,31 @@
+import { Constants, Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+export type Capability = 'manage_users' | 'manage_content' | 'moderate';
+
+export const APP_ROLES = Constants.public.Enums.app_role;
+
+// Roles an auto-approval rule may hand out; admins are always promoted by hand
+export const AUTO_APPROVAL_ROLES = APP_ROLES.filter(role => role !== 'admin');
+
+// Mirrors is_admin(), can_manage_content() and can_moderate() in the database
+const ROLE_CAPABILITIES: Record<AppRole, Capability[]> = {
+  admin: ['manage_users', 'manage_content', 'moderate'],
+  editor: ['manage_content'],
+  moderator: ['moderate'],
+  learner: [],
+};
+
+export const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  admin: 'Full access, including users and access',
+  editor: 'Manages subjects, chapters, notes and videos',
+  moderator: 'Handles comments and reports',
+  learner: 'Read-only access to granted subjects',
+};
+
+export const can = (role: AppRole | null | undefined, capability: Capability) =>
+  !!role && ROLE_CAPABILITIES[role].includes(capability);
+
+export const canAccessAdminPanel = (role: AppRole | null | undefined) =>
+  can(role, 'manage_users') || can(role, 'manage_content');
@@ -0,0 +1,116 @@
+import { supabase } from '@/integrations/supabase/client';
+import { VIDEO_BUCKET } from '@/lib/video-source';
+
+export const PDF_BUCKET = 'pdfs';
+
+// Signed URLs only need to live long enough for the viewer to fetch the file
+const SIGNED_URL_TTL_SECONDS = 60 * 10;
+
+export const getSignedPdfUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(PDF_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Long enough to watch a lecture in one sitting; the player asks for a new one on reload
+const VIDEO_SIGNED_URL_TTL_SECONDS = 60 * 60 * 4;
+
+export const getSignedVideoUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(VIDEO_BUCKET)
+    .createSignedUrl(path, VIDEO_SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// One request for all the poster frames on a page, keyed by path
+export const getSignedVideoUrls = async (paths: string[]) => {
+  const { data, error } = await supabase.storage
+    .from(VIDEO_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return Object.fromEntries(
+    data.filter(item => item.signedUrl).map(item => [item.path, item.signedUrl])
+  ) as Record<string, string>;
+};
+
+// supabase-js uploads don't report progress, so PUT to a signed upload URL instead
+const uploadWithProgress = async (
+  bucket: string,
+  path: string,
+  file: File,
+  contentType: string,
+  onProgress: (percent: number) => void
+) => {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUploadUrl(path);
+
+  if (error) throw error;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('Content-Type', file.type || contentType);
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => (xhr.status < 300 ? resolve() : reject(new Error(`Upload failed (${xhr.status})`)));
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.send(file);
+  });
+
+  return data.path;
+};
+
+export const uploadPdfWithProgress = (file: File, onProgress: (percent: number) => void) =>
+  uploadWithProgress(PDF_BUCKET, `${Date.now()}-${crypto.randomUUID()}.pdf`, file, 'application/pdf', onProgress);
+
+// The transcode worker picks the file up once a video points at it
+export const uploadVideoWithProgress = (file: File, onProgress: (percent: number) => void) =>
+  uploadWithProgress(VIDEO_BUCKET, `${Date.now()}-${crypto.randomUUID()}.mp4`, file, 'video/mp4', onProgress);
+
+// HLS players fetch the playlist and every segment themselves, so they use the
+// authenticated endpoint with the user's token instead of one signed URL per file
+export const getAuthenticatedVideoUrl = (path: string) =>
+  supabase.storage
+    .from(VIDEO_BUCKET)
+    .getPublicUrl(path)
+    .data.publicUrl.replace('/object/public/', '/object/authenticated/');
+
+export const copyPdf = async (path: string) => {
+  const copyPath = `${Date.now()}-${crypto.randomUUID()}.pdf`;
+  const { error } = await supabase.storage
+    .from(PDF_BUCKET)
+    .copy(path, copyPath);
+
+  if (error) throw error;
+  return copyPath;
+};
+
+// Indexes the text of freshly uploaded PDFs right away instead of waiting for the
+// scheduled run. Failures are only logged; the scheduled run picks the notes up again.
+export const requestPdfTextExtraction = async (noteIds: string[]) => {
+  const { error } = await supabase.functions.invoke('extract-pdf-text', {
+    body: { note_ids: noteIds },
+  });
+
+  if (error) console.error('Error requesting PDF text extraction:', error);
+};
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+export const formatBytes = (bytes: number) => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < SIZE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${SIZE_UNITS[unit]}`;
+};
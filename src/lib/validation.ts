@@ -0,0 +1,19 @@
+export type FieldErrors<T extends string> = Partial<Record<T, string>>;
+
+export const hasErrors = (errors: Record<string, string | undefined>) =>
+  Object.values(errors).some(Boolean);
+
+export const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const isMp4File = (file: File) =>
+  file.type === 'video/mp4' || /\.mp4$/i.test(file.name);
@@ -0,0 +1,75 @@
+// Timestamped sections of a video: the admin editor, the paste-from-YouTube
+// parser and the outline next to the player all share these helpers.
+
+export interface VideoSection {
+  title: string;
+  start_seconds: number;
+}
+
+const CLOCK_TIME = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/;
+
+// A timestamp as YouTube writes it in descriptions: 0:00, 14:32, 1:02:03
+const CLOCK_TIME_IN_LINE = /(?:^|[\s([])((?:\d+:)?\d{1,2}:\d{2})(?=$|[\s)\]:|.,-])/;
+
+// Characters that separate a timestamp from its title, e.g. "14:32 - Derivation"
+const SEPARATORS = /^[\s\-–—:|•·.,)\]]+|[\s\-–—:|•·(,[]+$/g;
+
+// "14:32" becomes 872; plain seconds are accepted too. null when unreadable.
+export const parseClockTime = (value: string) => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+
+  const match = trimmed.match(CLOCK_TIME);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds] = match;
+  if (parseInt(seconds, 10) >= 60 || (match[1] !== undefined && parseInt(minutes, 10) >= 60)) return null;
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+};
+
+export const formatClockTime = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+export const sortSections = <T extends VideoSection>(sections: T[]) =>
+  [...sections].sort((a, b) => a.start_seconds - b.start_seconds);
+
+// Reads a chapter list pasted from a YouTube description. Each line with a
+// timestamp becomes a section; the timestamp may come before or after the title.
+// Lines without one (links, hashtags, blank lines) are skipped.
+export const parseSectionList = (text: string) => {
+  const sections: VideoSection[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(CLOCK_TIME_IN_LINE);
+    if (!match) continue;
+
+    const start = parseClockTime(match[1]);
+    // Drop the timestamp along with any brackets around it, as in "(14:32) Derivation"
+    const title = line
+      .replace(new RegExp(`[([]?${match[1]}[)\\]]?`), ' ')
+      .replace(SEPARATORS, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (start === null || !title) continue;
+
+    // The same timestamp twice keeps the first title
+    if (!sections.some(section => section.start_seconds === start)) {
+      sections.push({ title, start_seconds: start });
+    }
+  }
+
+  return sortSections(sections);
+};
+
+// The section playing at a position, or -1 before the first one starts
+export const currentSectionIndex = (sections: VideoSection[], positionSeconds: number) => {
+  let current = -1;
+  sections.forEach((section, index) => {
+    if (section.start_seconds <= positionSeconds) current = index;
+  });
+  return current;
+};
@@ -0,0 +1,181 @@
+// Parses the video links admins paste into one canonical form per provider.
+// YouTube and Vimeo links are normalised to their watch URL; self-hosted files
+// live in the private "videos" storage bucket and are stored as
+// storage://videos/<path>, because any http URL to them would be a signed one
+// that expires.
+import { Database } from '@/integrations/supabase/types';
+
+export type VideoProvider = 'youtube' | 'vimeo' | 'storage';
+
+export interface VideoSource {
+  provider: VideoProvider;
+  // YouTube/Vimeo id, or the object path inside the videos bucket
+  videoId: string;
+  url: string;
+  // Where playback starts when the link carries a timestamp (t=, start=, #t=)
+  startSeconds: number;
+}
+
+export const VIDEO_BUCKET = 'videos';
+
+const STORAGE_SCHEME = `storage://${VIDEO_BUCKET}/`;
+
+// The link saved for a file uploaded to the videos bucket
+export const storageVideoUrl = (path: string) => `${STORAGE_SCHEME}${path}`;
+
+const YOUTUBE_ID = /^[A-Za-z0-9_-]{11}$/;
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com'];
+const YOUTUBE_PATH_PREFIXES = ['shorts', 'embed', 'live', 'v', 'e'];
+
+const VIMEO_HOSTS = ['vimeo.com', 'www.vimeo.com', 'player.vimeo.com'];
+
+// "90", "90s", "1m30s" and "1h2m3s" all become seconds
+export const parseTimestamp = (value: string | null) => {
+  if (!value) return 0;
+  if (/^\d+s?$/.test(value)) return parseInt(value, 10);
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match) return 0;
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+};
+
+const toUrl = (value: string) => {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`;
+  try {
+    return new URL(withScheme);
+  } catch {
+    return null;
+  }
+};
+
+const parseYouTube = (url: URL): VideoSource | null => {
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split('/').filter(Boolean);
+  let videoId: string | undefined;
+
+  if (host === 'youtu.be') {
+    videoId = segments[0];
+  } else if (YOUTUBE_HOSTS.includes(host)) {
+    if (segments[0] === 'watch') {
+      videoId = url.searchParams.get('v') ?? undefined;
+    } else if (YOUTUBE_PATH_PREFIXES.includes(segments[0])) {
+      videoId = segments[1];
+    }
+  }
+
+  if (!videoId || !YOUTUBE_ID.test(videoId)) return null;
+
+  const startSeconds = parseTimestamp(
+    url.searchParams.get('t') ?? url.searchParams.get('start') ?? new URLSearchParams(url.hash.slice(1)).get('t')
+  );
+  return {
+    provider: 'youtube',
+    videoId,
+    url: `https://www.youtube.com/watch?v=${videoId}${startSeconds > 0 ? `&t=${startSeconds}s` : ''}`,
+    startSeconds,
+  };
+};
+
+const parseVimeo = (url: URL): VideoSource | null => {
+  if (!VIMEO_HOSTS.includes(url.hostname.toLowerCase())) return null;
+
+  // vimeo.com/123, /channels/x/123, /groups/x/videos/123, player.vimeo.com/video/123;
+  // unlisted videos add a privacy hash as /123/abcdef or ?h=abcdef
+  const segments = url.pathname.split('/').filter(Boolean);
+  const idIndex = segments.findIndex(segment => /^\d+$/.test(segment));
+  if (idIndex === -1) return null;
+
+  const videoId = segments[idIndex];
+  const nextSegment = segments[idIndex + 1];
+  const hash = url.searchParams.get('h') ?? (nextSegment && /^[0-9a-f]+$/i.test(nextSegment) ? nextSegment : null);
+  const startSeconds = parseTimestamp(new URLSearchParams(url.hash.slice(1)).get('t'));
+
+  return {
+    provider: 'vimeo',
+    videoId,
+    url: `https://vimeo.com/${videoId}${hash ? `/${hash}` : ''}${startSeconds > 0 ? `#t=${startSeconds}s` : ''}`,
+    startSeconds,
+  };
+};
+
+// Accepts storage://videos/<path>, videos/<path>, or any Supabase storage URL
+// (public, signed or authenticated) pointing into the videos bucket
+const parseStorage = (value: string): VideoSource | null => {
+  let path: string | null = null;
+
+  if (value.startsWith(STORAGE_SCHEME)) {
+    path = value.slice(STORAGE_SCHEME.length);
+  } else if (value.startsWith(`${VIDEO_BUCKET}/`)) {
+    path = value.slice(VIDEO_BUCKET.length + 1);
+  } else {
+    const url = toUrl(value);
+    const match = url?.pathname.match(new RegExp(`/storage/v1/object/(?:public/|sign/|authenticated/)?${VIDEO_BUCKET}/(.+)$`));
+    if (match) path = decodeURIComponent(match[1]);
+  }
+
+  path = path?.split(/[?#]/)[0] ?? null;
+  if (!path || !/\.mp4$/i.test(path) || path.split('/').includes('..')) return null;
+
+  return { provider: 'storage', videoId: path, url: storageVideoUrl(path), startSeconds: 0 };
+};
+
+export const parseVideoSource = (value: string): VideoSource | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const storage = parseStorage(trimmed);
+  if (storage) return storage;
+
+  const url = toUrl(trimmed);
+  if (!url) return null;
+  return parseYouTube(url) ?? parseVimeo(url);
+};
+
+// Rebuilds the source from a saved row; legacy rows with an unrecognised link have no provider
+export const videoSourceFromRow = (row: {
+  source_url: string;
+  provider: VideoProvider | null;
+  provider_video_id: string | null;
+}): VideoSource | null =>
+  row.provider && row.provider_video_id
+    ? {
+      provider: row.provider,
+      videoId: row.provider_video_id,
+      url: row.source_url,
+      startSeconds: parseVideoSource(row.source_url)?.startSeconds ?? 0,
+    }
+    : null;
+
+export const isVideoSourceUrl = (value: string) => parseVideoSource(value) !== null;
+
+// The columns a videos row stores for a link, or null when the link is not supported
+export const videoSourceColumns = (value: string) => {
+  const source = parseVideoSource(value);
+  return source && {
+    source_url: source.url,
+    provider: source.provider,
+    provider_video_id: source.videoId,
+  };
+};
+
+export const VIDEO_SOURCE_HINT = 'Enter a YouTube or Vimeo link, or upload an MP4';
+
+export const PROVIDER_LABELS: Record<VideoProvider, string> = {
+  youtube: 'YouTube',
+  vimeo: 'Vimeo',
+  storage: 'Uploaded',
+};
+
+export type TranscodeStatus = Database['public']['Enums']['transcode_status'];
+
+// Uploaded videos stream once the transcode worker has made the HLS renditions
+export const TRANSCODE_STATUS_LABELS: Record<TranscodeStatus, string> = {
+  pending: 'Waiting to transcode',
+  processing: 'Transcoding',
+  ready: 'Ready to stream',
+  failed: 'Transcode failed',
+};
+
+export const videoThumbnailUrl = (provider: VideoProvider | null, videoId: string | null) =>
+  provider === 'youtube' && videoId ? `https://img.youtube.com/vi/${videoId}/mqdefault.jpg` : null;
@@ -0,0 +1,59 @@
+// The subset of the Vimeo Player SDK we use
+// (https://developer.vimeo.com/player/sdk/reference)
+export interface VimeoPlaybackEvent {
+  seconds: number;
+  duration: number;
+}
+
+export interface VimeoPlayer {
+  on(event: 'timeupdate' | 'pause' | 'ended', callback: (data: VimeoPlaybackEvent) => void): void;
+  on(event: 'error', callback: (error: { message: string }) => void): void;
+  ready(): Promise<void>;
+  setCurrentTime(seconds: number): Promise<number>;
+  getCurrentTime(): Promise<number>;
+  getDuration(): Promise<number>;
+  getPaused(): Promise<boolean>;
+  play(): Promise<void>;
+  destroy(): Promise<void>;
+}
+
+interface VimeoPlayerOptions {
+  url: string;
+  dnt?: boolean;
+}
+
+interface VimeoNamespace {
+  Player: new (element: HTMLElement, options: VimeoPlayerOptions) => VimeoPlayer;
+}
+
+declare global {
+  interface Window {
+    Vimeo?: VimeoNamespace;
+  }
+}
+
+let apiPromise: Promise<VimeoNamespace> | null = null;
+
+// Loads https://player.vimeo.com/api/player.js once
+export const loadVimeoApi = () => {
+  if (apiPromise) return apiPromise;
+
+  apiPromise = new Promise((resolve, reject) => {
+    if (window.Vimeo?.Player) {
+      resolve(window.Vimeo);
+      return;
+    }
+
+    const script = document.createElement('script');
+    script.src = 'https://player.vimeo.com/api/player.js';
+    script.async = true;
+    script.onload = () => resolve(window.Vimeo!);
+    script.onerror = () => {
+      apiPromise = null;
+      reject(new Error('Failed to load the Vimeo player'));
+    };
+    document.head.appendChild(script);
+  });
+
+  return apiPromise;
+};
@@ -0,0 +1,70 @@
+// The subset of the IFrame Player API we use
+// (https://developers.google.com/youtube/iframe_api_reference)
+export const PLAYER_STATE = {
+  ENDED: 0,
+  PLAYING: 1,
+  PAUSED: 2,
+} as const;
+
+export interface YouTubePlayer {
+  getCurrentTime(): number;
+  getDuration(): number;
+  getPlayerState(): number;
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  playVideo(): void;
+  destroy(): void;
+}
+
+interface YouTubePlayerOptions {
+  videoId: string;
+  width?: string | number;
+  height?: string | number;
+  playerVars?: Record<string, string | number>;
+  events?: {
+    onReady?: (event: { target: YouTubePlayer }) => void;
+    onStateChange?: (event: { data: number; target: YouTubePlayer }) => void;
+    onError?: (event: { data: number }) => void;
+  };
+}
+
+interface YouTubeNamespace {
+  Player: new (element: HTMLElement, options: YouTubePlayerOptions) => YouTubePlayer;
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+let apiPromise: Promise<YouTubeNamespace> | null = null;
+
+// Loads https://www.youtube.com/iframe_api once and resolves when it's ready
+export const loadYouTubeApi = () => {
+  if (apiPromise) return apiPromise;
+
+  apiPromise = new Promise((resolve, reject) => {
+    if (window.YT?.Player) {
+      resolve(window.YT);
+      return;
+    }
+
+    const previousReady = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      previousReady?.();
+      resolve(window.YT!);
+    };
+
+    const script = document.createElement('script');
+    script.src = 'https://www.youtube.com/iframe_api';
+    script.async = true;
+    script.onerror = () => {
+      apiPromise = null;
+      reject(new Error('Failed to load the YouTube player'));
+    };
+    document.head.appendChild(script);
+  });
+
+  return apiPromise;
+};
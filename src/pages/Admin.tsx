@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePreview } from '@/contexts/PreviewContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,16 +10,53 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Trash2, Plus, Upload, Eye, ArrowLeft } from 'lucide-react';
+import { Plus, Eye, ArrowLeft, RotateCcw } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { getSignedPdfUrl } from '@/lib/storage';
+import { expiryLabel, isExpired } from '@/lib/access';
+import { ContentStatus, isReleased, statusLabel } from '@/lib/publishing';
+import {
+  PROVIDER_LABELS,
+  TRANSCODE_STATUS_LABELS,
+  TranscodeStatus,
+  VIDEO_SOURCE_HINT,
+  VideoProvider,
+  videoSourceColumns,
+} from '@/lib/video-source';
+import { APP_ROLES, AppRole, ROLE_DESCRIPTIONS, can, canAccessAdminPanel } from '@/lib/roles';
+import { ExistingCourse } from '@/lib/course-import';
+import { format } from 'date-fns';
+import SubjectAccessDialog, { SubjectGrant } from '@/components/admin/SubjectAccessDialog';
+import InviteCodesTab from '@/components/admin/InviteCodesTab';
+import AutoApprovalRulesTab from '@/components/admin/AutoApprovalRulesTab';
+import AccessRequestsTab from '@/components/admin/AccessRequestsTab';
+import ActivityLogTab from '@/components/admin/ActivityLogTab';
+import EditSubjectDialog from '@/components/admin/EditSubjectDialog';
+import EditChapterDialog from '@/components/admin/EditChapterDialog';
+import EditNoteDialog from '@/components/admin/EditNoteDialog';
+import EditVideoDialog from '@/components/admin/EditVideoDialog';
+import VideoSectionsDialog from '@/components/admin/VideoSectionsDialog';
+import SortableList from '@/components/admin/SortableList';
+import ConfirmDeleteButton from '@/components/admin/ConfirmDeleteButton';
+import TrashTab from '@/components/admin/TrashTab';
+import StorageTab from '@/components/admin/StorageTab';
+import BulkNoteUpload from '@/components/admin/BulkNoteUpload';
+import CourseImportTab from '@/components/admin/CourseImportTab';
+import ExportSubjectButton from '@/components/admin/ExportSubjectButton';
+import DuplicateSubjectDialog from '@/components/admin/DuplicateSubjectDialog';
+import ContentStatusControl from '@/components/admin/ContentStatusControl';
+import VideoFileUpload from '@/components/admin/VideoFileUpload';
+import RestoreArchiveCard from '@/components/admin/RestoreArchiveCard';
 
 interface User {
   id: string;
   email: string;
   access: boolean;
-  is_admin: boolean;
-  role: string;
+  access_expires_at: string | null;
+  renewal_requested_at: string | null;
+  role: AppRole;
   created_at: string;
 }
 
@@ -27,6 +65,8 @@ interface Subject {
   name: string;
   description: string;
   image_url: string;
+  status: ContentStatus;
+  publish_at: string | null;
   created_at: string;
 }
 
@@ -35,42 +75,63 @@ interface Chapter {
   subject_id: string;
   title: string;
   description: string;
+  position: number;
+  status: ContentStatus;
+  publish_at: string | null;
   created_at: string;
 }
 
 interface Note {
   id: string;
   title: string;
-  pdf_url: string;
+  pdf_path: string;
   chapter_id: string;
+  position: number;
+  status: ContentStatus;
+  publish_at: string | null;
   created_at: string;
 }
 
 interface VideoContent {
   id: string;
   title: string;
-  youtube_url: string;
+  source_url: string;
+  provider: VideoProvider | null;
   chapter_id: string;
+  position: number;
+  status: ContentStatus;
+  publish_at: string | null;
   created_at: string;
 }
 
+interface VideoTranscode {
+  video_id: string;
+  status: TranscodeStatus;
+  error: string | null;
+}
+
 const Admin = () => {
   const { userData, refetchUserData } = useAuth();
+  const { setPreviewAsLearner } = usePreview();
   const { toast } = useToast();
   const navigate = useNavigate();
   
   const [users, setUsers] = useState<User[]>([]);
+  const [subjectGrants, setSubjectGrants] = useState<SubjectGrant[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
   const [videos, setVideos] = useState<VideoContent[]>([]);
+  const [transcodes, setTranscodes] = useState<VideoTranscode[]>([]);
+  const [videoSections, setVideoSections] = useState<ExistingCourse['sections']>([]);
   const [loading, setLoading] = useState(true);
 
   // Form states
   const [newSubject, setNewSubject] = useState({ name: '', description: '', image_url: '' });
   const [newChapter, setNewChapter] = useState({ title: '', description: '', subject_id: '' });
-  const [newNote, setNewNote] = useState({ title: '', chapter_id: '', file: null as File | null });
-  const [newVideo, setNewVideo] = useState({ title: '', youtube_url: '', chapter_id: '' });
+  const [newVideo, setNewVideo] = useState({ title: '', source_url: '', chapter_id: '' });
+
+  const canManageUsers = can(userData?.role, 'manage_users');
 
   useEffect(() => {
     if (!userData) {
@@ -78,7 +139,7 @@ const Admin = () => {
       return;
     }
     
-    if (!userData.is_admin) {
+    if (!canAccessAdminPanel(userData.role)) {
       navigate('/');
       return;
     }
@@ -88,19 +149,31 @@ const Admin = () => {
 
   const fetchData = async () => {
     try {
-      // Fetch users
-      const { data: usersData, error: usersError } = await supabase
-        .from('users')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (usersError) throw usersError;
-      setUsers(usersData || []);
+      // Editors only manage content, so skip the user management data
+      if (canManageUsers) {
+        // Fetch users
+        const { data: usersData, error: usersError } = await supabase
+          .from('users')
+          .select('*')
+          .order('created_at', { ascending: false });
+
+        if (usersError) throw usersError;
+        setUsers(usersData || []);
+
+        // Fetch per-subject access grants
+        const { data: grantsData, error: grantsError } = await supabase
+          .from('subject_access')
+          .select('*');
+
+        if (grantsError) throw grantsError;
+        setSubjectGrants(grantsData || []);
+      }
 
       // Fetch subjects
       const { data: subjectsData, error: subjectsError } = await supabase
         .from('subjects')
         .select('*')
+        .is('deleted_at', null)
         .order('name');
 
       if (subjectsError) throw subjectsError;
@@ -110,7 +183,8 @@ const Admin = () => {
       const { data: chaptersData, error: chaptersError } = await supabase
         .from('chapters')
         .select('*')
-        .order('created_at');
+        .is('deleted_at', null)
+        .order('position');
 
       if (chaptersError) throw chaptersError;
       setChapters(chaptersData || []);
@@ -119,7 +193,8 @@ const Admin = () => {
       const { data: notesData, error: notesError } = await supabase
         .from('notes')
         .select('*')
-        .order('title');
+        .is('deleted_at', null)
+        .order('position');
 
       if (notesError) throw notesError;
       setNotes(notesData || []);
@@ -128,10 +203,26 @@ const Admin = () => {
       const { data: videosData, error: videosError } = await supabase
         .from('videos')
         .select('*')
-        .order('title');
+        .is('deleted_at', null)
+        .order('position');
 
       if (videosError) throw videosError;
       setVideos(videosData || []);
+
+      const { data: transcodesData, error: transcodesError } = await supabase
+        .from('video_transcodes')
+        .select('video_id, status, error');
+
+      if (transcodesError) throw transcodesError;
+      setTranscodes(transcodesData || []);
+
+      // Outlines are only compared against course imports
+      const { data: sectionsData, error: sectionsError } = await supabase
+        .from('video_sections')
+        .select('video_id, title, start_seconds');
+
+      if (sectionsError) throw sectionsError;
+      setVideoSections(sectionsData || []);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -144,17 +235,24 @@ const Admin = () => {
     }
   };
 
+  const hasActiveAccess = (user: User) => user.access && !isExpired(user.access_expires_at);
+
   const toggleUserAccess = async (userId: string, currentAccess: boolean) => {
+    // Re-granting clears a lapsed expiry
+    const changes = currentAccess
+      ? { access: false }
+      : { access: true, access_expires_at: null };
+
     try {
       const { error } = await supabase
         .from('users')
-        .update({ access: !currentAccess })
+        .update(changes)
         .eq('id', userId);
 
       if (error) throw error;
 
       setUsers(users.map(user => 
-        user.id === userId ? { ...user, access: !currentAccess } : user
+        user.id === userId ? { ...user, ...changes } : user
       ));
 
       toast({
@@ -171,37 +269,67 @@ const Admin = () => {
     }
   };
 
-  const toggleUserAdmin = async (userId: string, currentIsAdmin: boolean) => {
+  const setUserAccessExpiry = async (userId: string, date: string) => {
+    const accessExpiresAt = date ? new Date(`${date}T23:59:59`).toISOString() : null;
+    const changes = { access_expires_at: accessExpiresAt };
+
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update(changes)
+        .eq('id', userId);
+
+      if (error) throw error;
+
+      setUsers(users.map(user => 
+        user.id === userId ? { ...user, ...changes } : user
+      ));
+
+      toast({
+        title: "Success",
+        description: accessExpiresAt ? "Access expiry updated" : "Access expiry removed",
+      });
+    } catch (error) {
+      console.error('Error updating access expiry:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update access expiry",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateUserRole = async (userId: string, role: AppRole) => {
     try {
       const { error } = await supabase
         .from('users')
-        .update({ is_admin: !currentIsAdmin })
+        .update({ role })
         .eq('id', userId);
 
       if (error) throw error;
 
       setUsers(users.map(user => 
-        user.id === userId ? { ...user, is_admin: !currentIsAdmin } : user
+        user.id === userId ? { ...user, role } : user
       ));
 
-      // Refetch current user data if their own admin status was changed
+      // Refetch current user data if their own role was changed
       if (userData && userId === userData.id) {
         await refetchUserData();
-        // If user just made themselves non-admin, redirect to dashboard
-        if (currentIsAdmin) {
+        // If user just demoted themselves, redirect to dashboard
+        if (role !== 'admin') {
           navigate('/');
         }
       }
 
       toast({
         title: "Success",
-        description: `User ${!currentIsAdmin ? 'promoted to admin' : 'removed from admin'}`,
+        description: `User role changed to ${role}`,
       });
     } catch (error) {
-      console.error('Error updating user admin status:', error);
+      console.error('Error updating user role:', error);
       toast({
         title: "Error",
-        description: "Failed to update user admin status",
+        description: "Failed to update user role",
         variant: "destructive",
       });
     }
@@ -226,7 +354,7 @@ const Admin = () => {
 
       toast({
         title: "Success",
-        description: "Subject created successfully",
+        description: "Subject created as a draft",
       });
 
       setNewSubject({ name: '', description: '', image_url: '' });
@@ -260,7 +388,7 @@ const Admin = () => {
 
       toast({
         title: "Success",
-        description: "Chapter created successfully",
+        description: "Chapter created as a draft",
       });
 
       setNewChapter({ title: '', description: '', subject_id: '' });
@@ -275,89 +403,86 @@ const Admin = () => {
     }
   };
 
-  const uploadNote = async () => {
-    if (!newNote.title.trim() || !newNote.chapter_id || !newNote.file) {
+  const createVideo = async () => {
+    if (!newVideo.title.trim() || !newVideo.source_url.trim() || !newVideo.chapter_id) {
       toast({
         title: "Error",
-        description: "Title, chapter, and PDF file are required",
+        description: "Title, video URL, and chapter are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const source = videoSourceColumns(newVideo.source_url);
+    if (!source) {
+      toast({
+        title: "Error",
+        description: VIDEO_SOURCE_HINT,
         variant: "destructive",
       });
       return;
     }
 
     try {
-      // Upload file to Supabase Storage
-      const fileExt = newNote.file.name.split('.').pop();
-      const fileName = `${Date.now()}.${fileExt}`;
-      
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('pdfs')
-        .upload(fileName, newNote.file);
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('pdfs')
-        .getPublicUrl(fileName);
-
-      // Insert note record
-      const { error: insertError } = await supabase
-        .from('notes')
-        .insert([{
-          title: newNote.title,
-          chapter_id: newNote.chapter_id,
-          pdf_url: publicUrl
-        }]);
+      const { error } = await supabase
+        .from('videos')
+        .insert([{ title: newVideo.title.trim(), chapter_id: newVideo.chapter_id, ...source }]);
 
-      if (insertError) throw insertError;
+      if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Note uploaded successfully",
+        description: "Video created as a draft",
       });
 
-      setNewNote({ title: '', chapter_id: '', file: null });
+      setNewVideo({ title: '', source_url: '', chapter_id: '' });
       fetchData();
     } catch (error) {
-      console.error('Error uploading note:', error);
+      console.error('Error creating video:', error);
       toast({
         title: "Error",
-        description: "Failed to upload note",
+        description: "Failed to create video",
         variant: "destructive",
       });
     }
   };
 
-  const createVideo = async () => {
-    if (!newVideo.title.trim() || !newVideo.youtube_url.trim() || !newVideo.chapter_id) {
-      toast({
-        title: "Error",
-        description: "Title, YouTube URL, and chapter are required",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  const retryTranscode = async (videoId: string) => {
     try {
-      const { error } = await supabase
-        .from('videos')
-        .insert([newVideo]);
+      const { error } = await supabase.rpc('retry_video_transcode', { p_video_id: videoId });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Video created successfully",
+        description: "Video queued for transcoding",
       });
 
-      setNewVideo({ title: '', youtube_url: '', chapter_id: '' });
       fetchData();
     } catch (error) {
-      console.error('Error creating video:', error);
+      console.error('Error retrying transcode:', error);
       toast({
         title: "Error",
-        description: "Failed to create video",
+        description: "Failed to retry transcoding",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Opens the in-app player, which handles every provider
+  const videoPath = (video: VideoContent) => {
+    const subjectId = chapters.find(chapter => chapter.id === video.chapter_id)?.subject_id;
+    return `/subjects/${subjectId}/videos/${video.id}`;
+  };
+
+  const previewNote = async (note: Note) => {
+    try {
+      window.open(await getSignedPdfUrl(note.pdf_path), '_blank');
+    } catch (error) {
+      console.error('Error opening note:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open note",
         variant: "destructive",
       });
     }
@@ -365,16 +490,16 @@ const Admin = () => {
 
   const deleteSubject = async (subjectId: string) => {
     try {
-      const { error } = await supabase
-        .from('subjects')
-        .delete()
-        .eq('id', subjectId);
+      const { error } = await supabase.rpc('soft_delete_content', {
+        p_table: 'subjects',
+        p_id: subjectId,
+      });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Subject deleted successfully",
+        description: "Subject moved to trash",
       });
 
       fetchData();
@@ -390,16 +515,16 @@ const Admin = () => {
 
   const deleteChapter = async (chapterId: string) => {
     try {
-      const { error } = await supabase
-        .from('chapters')
-        .delete()
-        .eq('id', chapterId);
+      const { error } = await supabase.rpc('soft_delete_content', {
+        p_table: 'chapters',
+        p_id: chapterId,
+      });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Chapter deleted successfully",
+        description: "Chapter moved to trash",
       });
 
       fetchData();
@@ -415,16 +540,16 @@ const Admin = () => {
 
   const deleteNote = async (noteId: string) => {
     try {
-      const { error } = await supabase
-        .from('notes')
-        .delete()
-        .eq('id', noteId);
+      const { error } = await supabase.rpc('soft_delete_content', {
+        p_table: 'notes',
+        p_id: noteId,
+      });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Note deleted successfully",
+        description: "Note moved to trash",
       });
 
       fetchData();
@@ -440,16 +565,16 @@ const Admin = () => {
 
   const deleteVideo = async (videoId: string) => {
     try {
-      const { error } = await supabase
-        .from('videos')
-        .delete()
-        .eq('id', videoId);
+      const { error } = await supabase.rpc('soft_delete_content', {
+        p_table: 'videos',
+        p_id: videoId,
+      });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Video deleted successfully",
+        description: "Video moved to trash",
       });
 
       fetchData();
@@ -463,15 +588,42 @@ const Admin = () => {
     }
   };
 
+  const reorderContent = async <T extends { id: string; position: number }>(
+    table: 'chapters' | 'notes' | 'videos',
+    ordered: T[],
+    setItems: React.Dispatch<React.SetStateAction<T[]>>
+  ) => {
+    const ids = ordered.map(item => item.id);
+
+    // Apply the new order locally so the drop doesn't snap back while saving
+    setItems(items => items
+      .map(item => (ids.includes(item.id) ? { ...item, position: ids.indexOf(item.id) + 1 } : item))
+      .sort((a, b) => a.position - b.position));
+
+    try {
+      const { error } = await supabase.rpc('reorder_content', { p_table: table, p_ids: ids });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error reordering content:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the new order",
+        variant: "destructive",
+      });
+      fetchData();
+    }
+  };
+
   const getSubjectName = (subjectId: string) => {
     const subject = subjects.find(s => s.id === subjectId);
     return subject?.name || 'Unknown Subject';
   };
 
-  const getChapterName = (chapterId: string) => {
-    const chapter = chapters.find(c => c.id === chapterId);
-    return chapter?.title || 'Unknown Chapter';
-  };
+  // Grouped by subject, then in chapter order
+  const chapterOptions = subjects.flatMap(subject => chapters
+    .filter(chapter => chapter.subject_id === subject.id)
+    .map(chapter => ({ id: chapter.id, label: `${subject.name} - ${chapter.title}` })));
 
   if (loading) {
     return (
@@ -488,73 +640,154 @@ const Admin = () => {
     <div className="min-h-screen bg-background">
       <header className="border-b">
         <div className="container mx-auto px-4 py-4">
-          <Button
-            variant="ghost"
-            onClick={() => navigate('/')}
-            className="mb-4"
-          >
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Back to Dashboard
-          </Button>
+          <div className="flex items-center justify-between mb-4">
+            <Button
+              variant="ghost"
+              onClick={() => navigate('/')}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setPreviewAsLearner(true);
+                navigate('/');
+              }}
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              Preview as Learner
+            </Button>
+          </div>
           <h1 className="text-3xl font-bold">Admin Panel</h1>
-          <p className="text-muted-foreground">Manage users, subjects, chapters, notes, and videos</p>
+          <p className="text-muted-foreground">
+            {canManageUsers
+              ? 'Manage users, subjects, chapters, notes, and videos'
+              : 'Manage subjects, chapters, notes, and videos'}
+          </p>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6">
-            <TabsTrigger value="users">Users</TabsTrigger>
+        <Tabs defaultValue={canManageUsers ? 'users' : 'subjects'} className="space-y-6">
+          <TabsList className="flex flex-wrap h-auto w-full justify-start">
+            {canManageUsers && (
+              <>
+                <TabsTrigger value="users">Users</TabsTrigger>
+                <TabsTrigger value="requests">Requests</TabsTrigger>
+                <TabsTrigger value="invites">Invites</TabsTrigger>
+                <TabsTrigger value="rules">Rules</TabsTrigger>
+              </>
+            )}
             <TabsTrigger value="subjects">Subjects</TabsTrigger>
             <TabsTrigger value="chapters">Chapters</TabsTrigger>
             <TabsTrigger value="notes">Notes</TabsTrigger>
             <TabsTrigger value="videos">Videos</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+            <TabsTrigger value="trash">Trash</TabsTrigger>
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            {canManageUsers && <TabsTrigger value="storage">Storage</TabsTrigger>}
+            {canManageUsers && <TabsTrigger value="activity">Activity</TabsTrigger>}
           </TabsList>
 
-          {/* Users Tab */}
-          <TabsContent value="users">
-            <Card>
-              <CardHeader>
-                <CardTitle>User Management</CardTitle>
-                <CardDescription>
-                  Manage user access and admin privileges
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {users.map((user) => (
-                    <div key={user.id} className="flex items-center justify-between p-4 border rounded-lg">
-                      <div>
-                        <p className="font-medium">{user.email}</p>
-                        <p className="text-sm text-muted-foreground">
-                          Joined {new Date(user.created_at).toLocaleDateString()}
-                        </p>
-                      </div>
-                      <div className="flex items-center space-x-4">
-                        <div className="flex items-center space-x-2">
-                          <Label htmlFor={`access-${user.id}`}>Access</Label>
-                          <Switch
-                            id={`access-${user.id}`}
-                            checked={user.access}
-                            onCheckedChange={() => toggleUserAccess(user.id, user.access)}
-                          />
+          {canManageUsers && (
+            <>
+              {/* Users Tab */}
+              <TabsContent value="users">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>User Management</CardTitle>
+                    <CardDescription>
+                      Manage user access and roles. "All subjects" unlocks every subject;
+                      use Subjects to grant individual courses.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {users.map((user) => (
+                        <div key={user.id} className="flex items-center justify-between p-4 border rounded-lg">
+                          <div>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <p className="font-medium">{user.email}</p>
+                              {user.access && user.access_expires_at && (
+                                <Badge variant={isExpired(user.access_expires_at) ? 'destructive' : 'outline'}>
+                                  {expiryLabel(user.access_expires_at)}
+                                </Badge>
+                              )}
+                              {user.renewal_requested_at && (
+                                <Badge variant="secondary">Renewal requested</Badge>
+                              )}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              Joined {new Date(user.created_at).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <div className="flex items-center space-x-4">
+                            <SubjectAccessDialog
+                              user={user}
+                              subjects={subjects}
+                              grants={subjectGrants.filter(g => g.user_id === user.id)}
+                              onChange={fetchData}
+                            />
+                            <div className="flex items-center space-x-2">
+                              <Label htmlFor={`access-${user.id}`}>All subjects</Label>
+                              <Switch
+                                id={`access-${user.id}`}
+                                checked={hasActiveAccess(user)}
+                                onCheckedChange={() => toggleUserAccess(user.id, hasActiveAccess(user))}
+                              />
+                            </div>
+                            {user.access && (
+                              <div className="flex items-center space-x-2">
+                                <Label htmlFor={`expires-${user.id}`}>Expires</Label>
+                                <Input
+                                  id={`expires-${user.id}`}
+                                  type="date"
+                                  className="h-8 w-36"
+                                  value={user.access_expires_at ? format(new Date(user.access_expires_at), 'yyyy-MM-dd') : ''}
+                                  onChange={(e) => setUserAccessExpiry(user.id, e.target.value)}
+                                />
+                              </div>
+                            )}
+                            <div className="flex items-center space-x-2">
+                              <Label htmlFor={`role-${user.id}`}>Role</Label>
+                              <Select value={user.role} onValueChange={(value) => updateUserRole(user.id, value as AppRole)}>
+                                <SelectTrigger id={`role-${user.id}`} className="h-8 w-32 capitalize">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {APP_ROLES.map((role) => (
+                                    <SelectItem key={role} value={role} className="capitalize">
+                                      <span title={ROLE_DESCRIPTIONS[role]}>{role}</span>
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
                         </div>
-                        <div className="flex items-center space-x-2">
-                          <Label htmlFor={`admin-${user.id}`}>Admin</Label>
-                          <Switch
-                            id={`admin-${user.id}`}
-                            checked={user.is_admin}
-                            onCheckedChange={() => toggleUserAdmin(user.id, user.is_admin)}
-                          />
-                        </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              {/* Access Requests Tab */}
+              <TabsContent value="requests">
+                <AccessRequestsTab subjects={subjects} onDecided={fetchData} />
+              </TabsContent>
+
+              {/* Invites Tab */}
+              <TabsContent value="invites">
+                <InviteCodesTab subjects={subjects} />
+              </TabsContent>
+
+              {/* Auto Approval Rules Tab */}
+              <TabsContent value="rules">
+                <AutoApprovalRulesTab subjects={subjects} />
+              </TabsContent>
+            </>
+          )}
 
           {/* Subjects Tab */}
           <TabsContent value="subjects">
@@ -607,18 +840,31 @@ const Admin = () => {
                     {subjects.map((subject) => (
                       <div key={subject.id} className="flex items-center justify-between p-4 border rounded-lg">
                         <div>
-                          <h3 className="font-medium">{subject.name}</h3>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-medium">{subject.name}</h3>
+                            {!isReleased(subject) && <Badge variant="outline">{statusLabel(subject)}</Badge>}
+                          </div>
                           {subject.description && (
                             <p className="text-sm text-muted-foreground">{subject.description}</p>
                           )}
                         </div>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => deleteSubject(subject.id)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                        <div className="flex space-x-2">
+                          <ContentStatusControl table="subjects" item={subject} onSaved={fetchData} />
+                          <DuplicateSubjectDialog
+                            subject={subject}
+                            notes={notes.filter(note =>
+                              chapters.some(c => c.id === note.chapter_id && c.subject_id === subject.id)
+                            )}
+                            onDuplicated={fetchData}
+                          />
+                          <ExportSubjectButton subject={subject} />
+                          <EditSubjectDialog subject={subject} onSaved={fetchData} />
+                          <ConfirmDeleteButton
+                            title={`Delete "${subject.name}"?`}
+                            description="The subject and all of its chapters, notes and videos move to the trash. You can restore them within 30 days."
+                            onConfirm={() => deleteSubject(subject.id)}
+                          />
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -680,27 +926,43 @@ const Admin = () => {
                   <CardTitle>Existing Chapters</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {chapters.map((chapter) => (
-                      <div key={chapter.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div>
-                          <h3 className="font-medium">{chapter.title}</h3>
-                          <p className="text-sm text-muted-foreground">
-                            Subject: {getSubjectName(chapter.subject_id)}
-                          </p>
-                          {chapter.description && (
-                            <p className="text-sm text-muted-foreground">{chapter.description}</p>
-                          )}
+                  <div className="space-y-6">
+                    {subjects.map((subject) => {
+                      const subjectChapters = chapters.filter(c => c.subject_id === subject.id);
+                      if (subjectChapters.length === 0) return null;
+
+                      return (
+                        <div key={subject.id} className="space-y-2">
+                          <h3 className="text-sm font-medium text-muted-foreground">{subject.name}</h3>
+                          <SortableList
+                            items={subjectChapters}
+                            onReorder={(ordered) => reorderContent('chapters', ordered, setChapters)}
+                            renderItem={(chapter) => (
+                              <div className="flex items-center justify-between p-4 border rounded-lg">
+                                <div>
+                                  <div className="flex items-center gap-2">
+                                    <h3 className="font-medium">{chapter.title}</h3>
+                                    {!isReleased(chapter) && <Badge variant="outline">{statusLabel(chapter)}</Badge>}
+                                  </div>
+                                  {chapter.description && (
+                                    <p className="text-sm text-muted-foreground">{chapter.description}</p>
+                                  )}
+                                </div>
+                                <div className="flex space-x-2">
+                                  <ContentStatusControl table="chapters" item={chapter} onSaved={fetchData} />
+                                  <EditChapterDialog chapter={chapter} subjects={subjects} onSaved={fetchData} />
+                                  <ConfirmDeleteButton
+                                    title={`Delete "${chapter.title}"?`}
+                                    description="The chapter and all of its notes and videos move to the trash. You can restore them within 30 days."
+                                    onConfirm={() => deleteChapter(chapter.id)}
+                                  />
+                                </div>
+                              </div>
+                            )}
+                          />
                         </div>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => deleteChapter(chapter.id)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -710,83 +972,52 @@ const Admin = () => {
           {/* Notes Tab */}
           <TabsContent value="notes">
             <div className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Upload New Note</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div>
-                    <Label htmlFor="note-title">Note Title</Label>
-                    <Input
-                      id="note-title"
-                      value={newNote.title}
-                      onChange={(e) => setNewNote({...newNote, title: e.target.value})}
-                      placeholder="Enter note title"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="note-chapter">Chapter</Label>
-                    <Select value={newNote.chapter_id} onValueChange={(value) => setNewNote({...newNote, chapter_id: value})}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a chapter" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {chapters.map((chapter) => (
-                          <SelectItem key={chapter.id} value={chapter.id}>
-                            {getSubjectName(chapter.subject_id)} - {chapter.title}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Label htmlFor="note-file">PDF File</Label>
-                    <Input
-                      id="note-file"
-                      type="file"
-                      accept=".pdf"
-                      onChange={(e) => setNewNote({...newNote, file: e.target.files?.[0] || null})}
-                    />
-                  </div>
-                  <Button onClick={uploadNote}>
-                    <Upload className="w-4 h-4 mr-2" />
-                    Upload Note
-                  </Button>
-                </CardContent>
-              </Card>
+              <BulkNoteUpload chapterOptions={chapterOptions} onUploaded={fetchData} />
 
               <Card>
                 <CardHeader>
                   <CardTitle>Existing Notes</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {notes.map((note) => (
-                      <div key={note.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div>
-                          <h3 className="font-medium">{note.title}</h3>
-                          <p className="text-sm text-muted-foreground">
-                            Chapter: {getChapterName(note.chapter_id)}
-                          </p>
-                        </div>
-                        <div className="flex space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => window.open(note.pdf_url, '_blank')}
-                          >
-                            <Eye className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => deleteNote(note.id)}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                  <div className="space-y-6">
+                    {chapterOptions.map((chapter) => {
+                      const chapterNotes = notes.filter(item => item.chapter_id === chapter.id);
+                      if (chapterNotes.length === 0) return null;
+
+                      return (
+                        <div key={chapter.id} className="space-y-2">
+                          <h3 className="text-sm font-medium text-muted-foreground">{chapter.label}</h3>
+                          <SortableList
+                            items={chapterNotes}
+                            onReorder={(ordered) => reorderContent('notes', ordered, setNotes)}
+                            renderItem={(note) => (
+                              <div className="flex items-center justify-between p-4 border rounded-lg">
+                                <div className="flex items-center gap-2">
+                                  <h3 className="font-medium">{note.title}</h3>
+                                  {!isReleased(note) && <Badge variant="outline">{statusLabel(note)}</Badge>}
+                                </div>
+                                <div className="flex space-x-2">
+                                  <ContentStatusControl table="notes" item={note} onSaved={fetchData} />
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => previewNote(note)}
+                                  >
+                                    <Eye className="w-4 h-4" />
+                                  </Button>
+                                  <EditNoteDialog note={note} chapterOptions={chapterOptions} onSaved={fetchData} />
+                                  <ConfirmDeleteButton
+                                    title={`Delete "${note.title}"?`}
+                                    description="The note moves to the trash. You can restore it within 30 days."
+                                    onConfirm={() => deleteNote(note.id)}
+                                  />
+                                </div>
+                              </div>
+                            )}
+                          />
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -826,13 +1057,16 @@ const Admin = () => {
                     </Select>
                   </div>
                   <div>
-                    <Label htmlFor="video-url">YouTube URL</Label>
+                    <Label htmlFor="video-url">Video URL</Label>
                     <Input
                       id="video-url"
-                      value={newVideo.youtube_url}
-                      onChange={(e) => setNewVideo({...newVideo, youtube_url: e.target.value})}
-                      placeholder="Enter YouTube URL"
+                      value={newVideo.source_url}
+                      onChange={(e) => setNewVideo({...newVideo, source_url: e.target.value})}
+                      placeholder="YouTube or Vimeo link, or upload an MP4"
                     />
+                    <div className="mt-2">
+                      <VideoFileUpload onUploaded={(url) => setNewVideo(current => ({...current, source_url: url}))} />
+                    </div>
                   </div>
                   <Button onClick={createVideo}>
                     <Plus className="w-4 h-4 mr-2" />
@@ -846,53 +1080,119 @@ const Admin = () => {
                   <CardTitle>Existing Videos</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {videos.map((video) => (
-                      <div key={video.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div>
-                          <h3 className="font-medium">{video.title}</h3>
-                          <p className="text-sm text-muted-foreground">
-                            Chapter: {getChapterName(video.chapter_id)}
-                          </p>
-                        </div>
-                        <div className="flex space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => window.open(video.youtube_url, '_blank')}
-                          >
-                            <Eye className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => deleteVideo(video.id)}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                  <div className="space-y-6">
+                    {chapterOptions.map((chapter) => {
+                      const chapterVideos = videos.filter(item => item.chapter_id === chapter.id);
+                      if (chapterVideos.length === 0) return null;
+
+                      return (
+                        <div key={chapter.id} className="space-y-2">
+                          <h3 className="text-sm font-medium text-muted-foreground">{chapter.label}</h3>
+                          <SortableList
+                            items={chapterVideos}
+                            onReorder={(ordered) => reorderContent('videos', ordered, setVideos)}
+                            renderItem={(video) => {
+                              const transcode = transcodes.find(item => item.video_id === video.id);
+                              return (
+                                <div className="flex items-center justify-between p-4 border rounded-lg">
+                                  <div className="flex items-center gap-2">
+                                    <h3 className="font-medium">{video.title}</h3>
+                                    {video.provider
+                                      ? <Badge variant="secondary">{PROVIDER_LABELS[video.provider]}</Badge>
+                                      : <Badge variant="destructive">Unsupported link</Badge>}
+                                    {transcode && transcode.status !== 'ready' && (
+                                      <Badge
+                                        variant={transcode.status === 'failed' ? 'destructive' : 'outline'}
+                                        title={transcode.error ?? undefined}
+                                      >
+                                        {TRANSCODE_STATUS_LABELS[transcode.status]}
+                                      </Badge>
+                                    )}
+                                    {!isReleased(video) && <Badge variant="outline">{statusLabel(video)}</Badge>}
+                                  </div>
+                                  <div className="flex space-x-2">
+                                    {transcode?.status === 'failed' && (
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => retryTranscode(video.id)}
+                                        aria-label={`Retry transcoding ${video.title}`}
+                                      >
+                                        <RotateCcw className="w-4 h-4" />
+                                      </Button>
+                                    )}
+                                    <ContentStatusControl table="videos" item={video} onSaved={fetchData} />
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => window.open(videoPath(video), '_blank')}
+                                    >
+                                      <Eye className="w-4 h-4" />
+                                    </Button>
+                                    <EditVideoDialog video={video} chapterOptions={chapterOptions} onSaved={fetchData} />
+                                    <VideoSectionsDialog video={video} />
+                                    <ConfirmDeleteButton
+                                      title={`Delete "${video.title}"?`}
+                                      description="The video moves to the trash. You can restore it within 30 days."
+                                      onConfirm={() => deleteVideo(video.id)}
+                                    />
+                                  </div>
+                                </div>
+                              );
+                            }}
+                          />
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
             </div>
           </TabsContent>
 
+          {/* Import Tab */}
+          <TabsContent value="import">
+            <div className="space-y-6">
+              <CourseImportTab existing={{ subjects, chapters, notes, videos, sections: videoSections }} onImported={fetchData} />
+              <RestoreArchiveCard subjects={subjects} onRestored={fetchData} />
+            </div>
+          </TabsContent>
+
+          {/* Trash Tab */}
+          <TabsContent value="trash">
+            <TrashTab onChange={fetchData} />
+          </TabsContent>
+
+          {/* Storage Tab */}
+          {canManageUsers && (
+            <TabsContent value="storage">
+              <StorageTab />
+            </TabsContent>
+          )}
+
+          {/* Activity Tab */}
+          {canManageUsers && (
+            <TabsContent value="activity">
+              <ActivityLogTab users={users} />
+            </TabsContent>
+          )}
+
           {/* Overview Tab */}
           <TabsContent value="overview">
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Users</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold">{users.length}</div>
-                  <p className="text-sm text-muted-foreground">
-                    {users.filter(u => u.access).length} with access
-                  </p>
-                </CardContent>
-              </Card>
+              {canManageUsers && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Users</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{users.length}</div>
+                    <p className="text-sm text-muted-foreground">
+                      {users.filter(u => hasActiveAccess(u) || subjectGrants.some(g => g.user_id === u.id)).length} with access
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
 
               <Card>
                 <CardHeader>
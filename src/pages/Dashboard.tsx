@@ -4,6 +4,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useProgress } from '@/hooks/use-progress';
+import { canAccessAdminPanel } from '@/lib/roles';
+import { ContentStatus, Releasable, isReleased, statusLabel } from '@/lib/publishing';
+import { usePreview } from '@/contexts/PreviewContext';
+import AccessPendingCard from '@/components/dashboard/AccessPendingCard';
+import PreviewBanner from '@/components/dashboard/PreviewBanner';
+import SearchPalette from '@/components/search/SearchPalette';
 import { FileText, Video, LogOut, Play, Download, BookOpen } from 'lucide-react';
 import defaultSubjectImage from '@/assets/default-subject.jpg';
 
@@ -11,36 +19,50 @@ interface Subject {
   id: string;
   name: string;
   description: string;
+  status: ContentStatus;
+  publish_at: string | null;
   created_at: string;
 }
 
-interface Note {
+interface Chapter extends Releasable {
+  id: string;
+  subject_id: string;
+}
+
+interface Note extends Releasable {
   id: string;
   title: string;
-  pdf_url: string;
+  pdf_path: string;
   chapter_id: string;
 }
 
-interface VideoContent {
+interface VideoContent extends Releasable {
   id: string;
   title: string;
-  youtube_url: string;
+  source_url: string;
   chapter_id: string;
 }
 
 const Dashboard = () => {
-  const { user, userData, signOut } = useAuth();
+  const { user, userData, hasAccess, signOut } = useAuth();
+  const { percentComplete } = useProgress();
+  const { previewAsLearner } = usePreview();
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
   const [videos, setVideos] = useState<VideoContent[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (userData?.access) {
+    if (hasAccess) {
       fetchContent();
     }
     setLoading(false);
-  }, [userData]);
+  }, [userData, hasAccess, previewAsLearner]);
+
+  // RLS already hides unreleased content from learners; staff previewing get the same view
+  const visible = <T extends Releasable>(items: T[]) =>
+    previewAsLearner ? items.filter(isReleased) : items;
 
   const fetchContent = async () => {
     try {
@@ -48,15 +70,49 @@ const Dashboard = () => {
       const { data: subjectsData, error: subjectsError } = await supabase
         .from('subjects')
         .select('*')
+        .is('deleted_at', null)
         .order('name');
 
       if (subjectsError) throw subjectsError;
-      setSubjects(subjectsData || []);
+      setSubjects(visible(subjectsData || []));
+
+      // Fetch chapter, note and video ids to compute completion per subject
+      const { data: chaptersData, error: chaptersError } = await supabase
+        .from('chapters')
+        .select('id, subject_id, status, publish_at')
+        .is('deleted_at', null);
+
+      if (chaptersError) throw chaptersError;
+      setChapters(visible(chaptersData || []));
+
+      const { data: notesData, error: notesError } = await supabase
+        .from('notes')
+        .select('id, title, pdf_path, chapter_id, status, publish_at')
+        .is('deleted_at', null);
+
+      if (notesError) throw notesError;
+      setNotes(visible(notesData || []));
+
+      const { data: videosData, error: videosError } = await supabase
+        .from('videos')
+        .select('id, title, source_url, chapter_id, status, publish_at')
+        .is('deleted_at', null);
+
+      if (videosError) throw videosError;
+      setVideos(visible(videosData || []));
     } catch (error) {
       console.error('Error fetching content:', error);
     }
   };
 
+  const getSubjectPercent = (subjectId: string) => {
+    const chapterIds = new Set(chapters.filter(c => c.subject_id === subjectId).map(c => c.id));
+    return percentComplete([
+      ...notes.filter(n => chapterIds.has(n.chapter_id)).map(n => ({ type: 'note' as const, id: n.id })),
+      ...videos.filter(v => chapterIds.has(v.chapter_id)).map(v => ({ type: 'video' as const, id: v.id })),
+    ]);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -68,34 +124,19 @@ const Dashboard = () => {
     );
   }
 
-  if (!userData?.access) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle className="text-center">Access Pending</CardTitle>
-            <CardDescription className="text-center">
-              Access pending approval by admin. Please wait for approval.
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="text-center">
-            <Button onClick={signOut} variant="outline">
-              <LogOut className="w-4 h-4 mr-2" />
-              Sign Out
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
+  if (!hasAccess) {
+    return <AccessPendingCard />;
   }
 
   return (
     <div className="min-h-screen bg-background">
+      <PreviewBanner />
       <header className="border-b">
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold">Educational Notes</h1>
           <div className="flex items-center gap-2">
-            {userData?.is_admin && (
+            <SearchPalette />
+            {canAccessAdminPanel(userData?.role) && !previewAsLearner && (
               <Button onClick={() => window.location.href = '/admin'} variant="secondary">
                 Admin Panel
               </Button>
@@ -111,7 +152,7 @@ const Dashboard = () => {
       <main className="container mx-auto px-4 py-8">
         <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3">
           {subjects.map((subject) => {
-            const totalContent = notes.length + videos.length;
+            const subjectPercent = getSubjectPercent(subject.id);
 
             return (
               <Card 
@@ -135,13 +176,20 @@ const Dashboard = () => {
                   </div>
                   <div className="absolute top-4 right-4">
                     <Badge variant="secondary" className="bg-white/20 text-white border-white/30">
-                      Click to explore
+                      {isReleased(subject) ? 'Click to explore' : statusLabel(subject)}
                     </Badge>
                   </div>
                 </div>
 
                 {/* Simple Content Preview */}
-                <CardContent className="p-6">
+                <CardContent className="p-6 space-y-4">
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>Progress</span>
+                      <span>{subjectPercent}% complete</span>
+                    </div>
+                    <Progress value={subjectPercent} className="h-2" />
+                  </div>
                   <div className="flex items-center justify-center">
                     <Button
                       variant="outline"
@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreview } from '@/contexts/PreviewContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import PdfViewer from '@/components/notes/PdfViewer';
+import PreviewBanner from '@/components/dashboard/PreviewBanner';
+import SearchPalette from '@/components/search/SearchPalette';
+import { useProgress } from '@/hooks/use-progress';
+import { getSignedPdfUrl } from '@/lib/storage';
+import { isReleased } from '@/lib/publishing';
+import { ArrowLeft, CheckCircle2, Circle } from 'lucide-react';
+
+interface Note {
+  id: string;
+  title: string;
+  pdf_path: string;
+  chapter_id: string;
+}
+
+interface Chapter {
+  id: string;
+  title: string;
+  subject_id: string;
+}
+
+interface Subject {
+  id: string;
+  name: string;
+}
+
+const PAGE_SAVE_DELAY_MS = 1000;
+
+const NoteViewer = () => {
+  const { subjectId, noteId } = useParams<{ subjectId: string; noteId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { userData, hasAccess } = useAuth();
+  const { previewAsLearner } = usePreview();
+  const { loaded: progressLoaded, getRecord, saveRecord, isCompleted, markOpened, setCompleted } = useProgress();
+  const [note, setNote] = useState<Note | null>(null);
+  const [chapter, setChapter] = useState<Chapter | null>(null);
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const pageSaveTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    if (!subjectId || !noteId || !hasAccess) {
+      navigate('/');
+      return;
+    }
+    fetchNoteData();
+  }, [subjectId, noteId, userData, hasAccess, previewAsLearner]);
+
+  useEffect(() => {
+    if (note && progressLoaded) {
+      markOpened('note', note.id);
+    }
+  }, [note, progressLoaded, markOpened]);
+
+  useEffect(() => () => clearTimeout(pageSaveTimeout.current), []);
+
+  const fetchNoteData = async () => {
+    try {
+      const { data: noteData, error: noteError } = await supabase
+        .from('notes')
+        .select('id, title, pdf_path, chapter_id, status, publish_at')
+        .is('deleted_at', null)
+        .eq('id', noteId)
+        .single();
+
+      if (noteError) throw noteError;
+      setNote(noteData);
+      setPdfUrl(await getSignedPdfUrl(noteData.pdf_path));
+
+      const { data: chapterData, error: chapterError } = await supabase
+        .from('chapters')
+        .select('id, title, subject_id, status, publish_at')
+        .is('deleted_at', null)
+        .eq('id', noteData.chapter_id)
+        .single();
+
+      if (chapterError) throw chapterError;
+      setChapter(chapterData);
+
+      const { data: subjectData, error: subjectError } = await supabase
+        .from('subjects')
+        .select('id, name, status, publish_at')
+        .is('deleted_at', null)
+        .eq('id', chapterData.subject_id)
+        .single();
+
+      if (subjectError) throw subjectError;
+
+      // Staff previewing as a learner get the same not-found a learner would
+      if (previewAsLearner && ![noteData, chapterData, subjectData].every(isReleased)) {
+        throw new Error('Note is not released yet');
+      }
+      setSubject(subjectData);
+    } catch (error) {
+      console.error('Error fetching note:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePageChange = useCallback((page: number) => {
+    if (!noteId) return;
+    clearTimeout(pageSaveTimeout.current);
+    pageSaveTimeout.current = setTimeout(() => {
+      saveRecord('note', noteId, { last_page: page });
+    }, PAGE_SAVE_DELAY_MS);
+  }, [noteId, saveRecord]);
+
+  if (loading || !progressLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!note || !chapter || !subject || !pdfUrl) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-2">Note Not Found</h2>
+          <p className="text-muted-foreground mb-4">The note you're looking for doesn't exist.</p>
+          <Button onClick={() => navigate(`/subjects/${subjectId}`)}>Go Back to Subject</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const chapterPath = `/subjects/${subject.id}#chapter-${chapter.id}`;
+  // Search results link to the matching page; otherwise resume where the user left off
+  const requestedPage = Number(searchParams.get('page')) || null;
+  const completed = isCompleted('note', note.id);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PreviewBanner />
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 space-y-4">
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <Link to="/">Dashboard</Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <Link to={`/subjects/${subject.id}`}>{subject.name}</Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <Link to={chapterPath}>{chapter.title}</Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbPage>{note.title}</BreadcrumbPage>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" onClick={() => navigate(chapterPath)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Chapter
+              </Button>
+              <h1 className="text-2xl font-bold">{note.title}</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <SearchPalette />
+              <Button
+                variant={completed ? 'secondary' : 'outline'}
+                onClick={() => setCompleted('note', note.id, !completed)}
+              >
+                {completed ? <CheckCircle2 className="w-4 h-4 mr-2 text-primary" /> : <Circle className="w-4 h-4 mr-2" />}
+                {completed ? 'Completed' : 'Mark complete'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <PdfViewer
+          key={requestedPage ?? 'resume'}
+          url={pdfUrl}
+          initialPage={requestedPage ?? getRecord('note', note.id)?.last_page ?? 1}
+          onPageChange={handlePageChange}
+        />
+      </main>
+    </div>
+  );
+};
+
+export default NoteViewer;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreview } from '@/contexts/PreviewContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import PreviewBanner from '@/components/dashboard/PreviewBanner';
+import { ArrowLeft, FileText, Search as SearchIcon } from 'lucide-react';
+
+interface PageMatch {
+  note_id: string;
+  note_title: string;
+  page_number: number;
+  snippet: string;
+  subject_id: string;
+  subject_name: string;
+  chapter_title: string;
+  released: boolean;
+}
+
+// ts_headline marks matches with <mark>; render them as elements instead of injecting HTML
+const Snippet = ({ text }: { text: string }) => (
+  <>
+    {text.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+      index % 2 === 1
+        ? <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">{part}</mark>
+        : <React.Fragment key={index}>{part}</React.Fragment>
+    )}
+  </>
+);
+
+const Search = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { hasAccess } = useAuth();
+  const { previewAsLearner } = usePreview();
+  const query = searchParams.get('q') ?? '';
+  const [input, setInput] = useState(query);
+  const [matches, setMatches] = useState<PageMatch[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!hasAccess) {
+      navigate('/');
+      return;
+    }
+    setInput(query);
+    searchPages();
+  }, [query, hasAccess, previewAsLearner]);
+
+  const searchPages = async () => {
+    if (!query.trim()) {
+      setMatches([]);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const { data, error } = await supabase.rpc('search_note_pages', { p_query: query });
+
+      if (error) throw error;
+      // RLS already hides unreleased content from learners; staff previewing get the same view
+      setMatches((data || []).filter(match => !previewAsLearner || match.released));
+    } catch (error) {
+      console.error('Error searching notes:', error);
+      setMatches([]);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const submitSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams(input.trim() ? { q: input.trim() } : {});
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PreviewBanner />
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex flex-wrap items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-2xl font-bold">Search inside notes</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <form onSubmit={submitSearch} className="flex gap-2 max-w-2xl">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search the text of all notes..."
+            aria-label="Search inside notes"
+          />
+          <Button type="submit">
+            <SearchIcon className="w-4 h-4 mr-2" />
+            Search
+          </Button>
+        </form>
+
+        {searching ? (
+          <p className="text-muted-foreground">Searching...</p>
+        ) : query.trim() && matches.length === 0 ? (
+          <p className="text-muted-foreground">No pages match “{query}”.</p>
+        ) : (
+          <div className="space-y-3">
+            {matches.map((match) => (
+              <Link
+                key={`${match.note_id}-${match.page_number}`}
+                to={`/subjects/${match.subject_id}/notes/${match.note_id}?page=${match.page_number}`}
+                className="block"
+              >
+                <Card className="hover:bg-muted/50 transition-colors">
+                  <CardContent className="p-4 space-y-1">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="font-medium flex items-center gap-2">
+                        <FileText className="w-4 h-4 text-primary" />
+                        {match.note_title}
+                      </p>
+                      <span className="text-sm text-muted-foreground">Page {match.page_number}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {match.subject_name} · {match.chapter_title}
+                    </p>
+                    <p className="text-sm">
+                      <Snippet text={match.snippet} />
+                    </p>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Search;
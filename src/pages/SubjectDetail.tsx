@@ -1,14 +1,23 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePreview } from '@/contexts/PreviewContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Video, ArrowLeft, Play, Download, BookOpen } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { useProgress } from '@/hooks/use-progress';
+import PreviewBanner from '@/components/dashboard/PreviewBanner';
+import SearchPalette from '@/components/search/SearchPalette';
+import { ContentRef } from '@/lib/progress';
+import { Releasable, isReleased } from '@/lib/publishing';
+import { getSignedVideoUrls } from '@/lib/storage';
+import { VideoProvider, videoThumbnailUrl } from '@/lib/video-source';
+import { FileText, Video, ArrowLeft, Play, BookOpen, BookOpenText, CheckCircle2, Circle } from 'lucide-react';
 import defaultSubjectImage from '@/assets/default-subject.jpg';
 
-interface Subject {
+interface Subject extends Releasable {
   id: string;
   name: string;
   description: string;
@@ -16,7 +25,7 @@ interface Subject {
   created_at: string;
 }
 
-interface Chapter {
+interface Chapter extends Releasable {
   id: string;
   subject_id: string;
   title: string;
@@ -24,37 +33,54 @@ interface Chapter {
   created_at: string;
 }
 
-interface Note {
+interface Note extends Releasable {
   id: string;
   title: string;
-  pdf_url: string;
+  pdf_path: string;
   chapter_id: string;
 }
 
-interface VideoContent {
+interface VideoContent extends Releasable {
   id: string;
   title: string;
-  youtube_url: string;
+  source_url: string;
+  provider: VideoProvider | null;
+  provider_video_id: string | null;
   chapter_id: string;
 }
 
 const SubjectDetail = () => {
   const { subjectId } = useParams<{ subjectId: string }>();
   const navigate = useNavigate();
-  const { userData } = useAuth();
+  const location = useLocation();
+  const { userData, hasAccess } = useAuth();
+  const { getRecord, isCompleted, setCompleted, percentComplete } = useProgress();
+  const { previewAsLearner } = usePreview();
   const [subject, setSubject] = useState<Subject | null>(null);
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
   const [videos, setVideos] = useState<VideoContent[]>([]);
+  // Poster frames of transcoded uploads, by video id
+  const [posterUrls, setPosterUrls] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (!subjectId || !userData?.access) {
+    if (!subjectId || !hasAccess) {
       navigate('/');
       return;
     }
     fetchSubjectData();
-  }, [subjectId, userData]);
+  }, [subjectId, userData, hasAccess, previewAsLearner]);
+
+  // Scroll to the chapter linked from breadcrumbs (e.g. #chapter-<id>)
+  useEffect(() => {
+    if (loading || !location.hash) return;
+    document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+  }, [loading, location.hash]);
+
+  // RLS already hides unreleased content from learners; staff previewing get the same view
+  const visible = <T extends Releasable>(items: T[]) =>
+    previewAsLearner ? items.filter(isReleased) : items;
 
   const fetchSubjectData = async () => {
     try {
@@ -62,43 +88,49 @@ const SubjectDetail = () => {
       const { data: subjectData, error: subjectError } = await supabase
         .from('subjects')
         .select('*')
+        .is('deleted_at', null)
         .eq('id', subjectId)
         .single();
 
       if (subjectError) throw subjectError;
-      setSubject(subjectData);
+      setSubject(visible([subjectData])[0] ?? null);
 
       // Fetch chapters for this subject
       const { data: chaptersData, error: chaptersError } = await supabase
         .from('chapters')
         .select('*')
+        .is('deleted_at', null)
         .eq('subject_id', subjectId)
-        .order('created_at');
+        .order('position');
 
       if (chaptersError) throw chaptersError;
-      setChapters(chaptersData || []);
+      const visibleChapters = visible(chaptersData || []);
+      setChapters(visibleChapters);
 
       // Fetch all notes and videos for chapters of this subject
-      const chapterIds = chaptersData?.map(c => c.id) || [];
+      const chapterIds = visibleChapters.map(c => c.id);
       
       if (chapterIds.length > 0) {
         const { data: notesData, error: notesError } = await supabase
           .from('notes')
           .select('*')
+          .is('deleted_at', null)
           .in('chapter_id', chapterIds)
-          .order('title');
+          .order('position');
 
         if (notesError) throw notesError;
-        setNotes(notesData || []);
+        setNotes(visible(notesData || []));
 
         const { data: videosData, error: videosError } = await supabase
           .from('videos')
           .select('*')
+          .is('deleted_at', null)
           .in('chapter_id', chapterIds)
-          .order('title');
+          .order('position');
 
         if (videosError) throw videosError;
-        setVideos(videosData || []);
+        setVideos(visible(videosData || []));
+        fetchPosterUrls((videosData || []).filter(video => video.provider === 'storage').map(video => video.id));
       }
     } catch (error) {
       console.error('Error fetching subject data:', error);
@@ -107,9 +139,29 @@ const SubjectDetail = () => {
     }
   };
 
-  const getYouTubeVideoId = (url: string) => {
-    const match = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/);
-    return match ? match[1] : null;
+  // Thumbnails are a nicety; a failure here only leaves the placeholder icon
+  const fetchPosterUrls = async (videoIds: string[]) => {
+    if (videoIds.length === 0) return;
+    try {
+      const { data, error } = await supabase
+        .from('video_transcodes')
+        .select('video_id, poster_path')
+        .in('video_id', videoIds)
+        .eq('status', 'ready')
+        .not('poster_path', 'is', null);
+
+      if (error) throw error;
+      if (!data?.length) return;
+
+      const signedUrls = await getSignedVideoUrls(data.map(item => item.poster_path!));
+      setPosterUrls(Object.fromEntries(
+        data
+          .filter(item => signedUrls[item.poster_path!])
+          .map(item => [item.video_id, signedUrls[item.poster_path!]])
+      ));
+    } catch (error) {
+      console.error('Error fetching video posters:', error);
+    }
   };
 
   const getChapterNotes = (chapterId: string) => 
@@ -118,6 +170,19 @@ const SubjectDetail = () => {
   const getChapterVideos = (chapterId: string) => 
     videos.filter(video => video.chapter_id === chapterId);
 
+  const toContentRefs = (chapterNotes: Note[], chapterVideos: VideoContent[]): ContentRef[] => [
+    ...chapterNotes.map(note => ({ type: 'note' as const, id: note.id })),
+    ...chapterVideos.map(video => ({ type: 'video' as const, id: video.id })),
+  ];
+
+  const openNote = (note: Note) => {
+    navigate(`/subjects/${subjectId}/notes/${note.id}`);
+  };
+
+  const openVideo = (video: VideoContent) => {
+    navigate(`/subjects/${subjectId}/videos/${video.id}`);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -141,18 +206,23 @@ const SubjectDetail = () => {
     );
   }
 
+  const subjectPercent = percentComplete(toContentRefs(notes, videos));
+
   return (
     <div className="min-h-screen bg-background">
+      <PreviewBanner />
       <header className="border-b">
         <div className="container mx-auto px-4 py-4">
-          <Button
-            variant="ghost"
-            onClick={() => navigate('/')}
-            className="mb-4"
-          >
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Back to Dashboard
-          </Button>
+          <div className="flex items-center justify-between mb-4">
+            <Button
+              variant="ghost"
+              onClick={() => navigate('/')}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+            <SearchPalette />
+          </div>
           
           {/* Subject Header */}
           <div className="flex flex-col md:flex-row gap-6 items-start">
@@ -168,10 +238,14 @@ const SubjectDetail = () => {
               {subject.description && (
                 <p className="text-muted-foreground text-lg mb-4">{subject.description}</p>
               )}
-              <div className="flex gap-4 text-sm text-muted-foreground">
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
                 <span>{chapters.length} chapters</span>
                 <span>{notes.length} notes</span>
                 <span>{videos.length} videos</span>
+                <span className="flex items-center gap-2">
+                  <Progress value={subjectPercent} className="h-2 w-24" />
+                  {subjectPercent}% complete
+                </span>
               </div>
             </div>
           </div>
@@ -191,9 +265,10 @@ const SubjectDetail = () => {
               const chapterNotes = getChapterNotes(chapter.id);
               const chapterVideos = getChapterVideos(chapter.id);
               const totalContent = chapterNotes.length + chapterVideos.length;
+              const chapterPercent = percentComplete(toContentRefs(chapterNotes, chapterVideos));
 
               return (
-                <Card key={chapter.id} className="overflow-hidden">
+                <Card key={chapter.id} id={`chapter-${chapter.id}`} className="overflow-hidden scroll-mt-4">
                   <CardHeader className="bg-muted/30">
                     <div className="flex items-start justify-between">
                       <div>
@@ -202,9 +277,16 @@ const SubjectDetail = () => {
                           <CardDescription className="mt-1">{chapter.description}</CardDescription>
                         )}
                       </div>
-                      <Badge variant="secondary">
-                        {totalContent} items
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        {totalContent > 0 && (
+                          <Badge variant={chapterPercent === 100 ? 'default' : 'outline'}>
+                            {chapterPercent}% complete
+                          </Badge>
+                        )}
+                        <Badge variant="secondary">
+                          {totalContent} items
+                        </Badge>
+                      </div>
                     </div>
                   </CardHeader>
 
@@ -224,19 +306,32 @@ const SubjectDetail = () => {
                         
                         {chapterNotes.length > 0 ? (
                           <div className="space-y-3">
-                            {chapterNotes.map((note) => (
-                              <div key={note.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent/50 transition-colors">
-                                <span className="font-medium truncate mr-2">{note.title}</span>
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => window.open(note.pdf_url, '_blank')}
-                                >
-                                  <Download className="w-4 h-4 mr-1" />
-                                  PDF
-                                </Button>
-                              </div>
-                            ))}
+                            {chapterNotes.map((note) => {
+                              const completed = isCompleted('note', note.id);
+                              return (
+                                <div key={note.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent/50 transition-colors">
+                                  <span className="font-medium truncate mr-2">{note.title}</span>
+                                  <div className="flex items-center gap-2">
+                                    <Button
+                                      size="sm"
+                                      variant={completed ? 'secondary' : 'ghost'}
+                                      onClick={() => setCompleted('note', note.id, !completed)}
+                                      title={completed ? 'Mark as not complete' : 'Mark complete'}
+                                    >
+                                      {completed ? <CheckCircle2 className="w-4 h-4 text-primary" /> : <Circle className="w-4 h-4" />}
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => openNote(note)}
+                                    >
+                                      <BookOpenText className="w-4 h-4 mr-1" />
+                                      Read
+                                    </Button>
+                                  </div>
+                                </div>
+                              );
+                            })}
                           </div>
                         ) : (
                           <p className="text-muted-foreground text-sm">No notes available for this chapter.</p>
@@ -258,29 +353,65 @@ const SubjectDetail = () => {
                         {chapterVideos.length > 0 ? (
                           <div className="space-y-4">
                             {chapterVideos.map((video) => {
-                              const videoId = getYouTubeVideoId(video.youtube_url);
+                              const thumbnailUrl = videoThumbnailUrl(video.provider, video.provider_video_id) ?? posterUrls[video.id];
+                              const completed = isCompleted('video', video.id);
+                              const watchedPercent = getRecord('video', video.id)?.watched_percent ?? 0;
                               return (
-                                <div key={video.id} className="border rounded-lg overflow-hidden group/video">
-                                  {videoId && (
+                                <div key={video.id} id={`video-${video.id}`} className="border rounded-lg overflow-hidden group/video scroll-mt-4">
+                                  {video.provider && (
                                     <div className="relative aspect-video bg-muted">
-                                      <img 
-                                        src={`https://img.youtube.com/vi/${videoId}/mqdefault.jpg`}
-                                        alt={video.title}
-                                        className="w-full h-full object-cover"
-                                      />
+                                      {thumbnailUrl ? (
+                                        <img 
+                                          src={thumbnailUrl}
+                                          alt={video.title}
+                                          className="w-full h-full object-cover"
+                                        />
+                                      ) : (
+                                        <div className="w-full h-full flex items-center justify-center">
+                                          <Video className="w-12 h-12 text-muted-foreground/50" />
+                                        </div>
+                                      )}
                                       <div className="absolute inset-0 bg-black/20 group-hover/video:bg-black/40 transition-colors flex items-center justify-center">
                                         <Button
-                                          onClick={() => window.open(video.youtube_url, '_blank')}
+                                          onClick={() => openVideo(video)}
                                           className="bg-white/90 text-black hover:bg-white"
                                         >
                                           <Play className="w-4 h-4 mr-1" />
-                                          Watch
+                                          {watchedPercent > 0 && !completed ? 'Resume' : 'Watch'}
                                         </Button>
                                       </div>
+                                      {watchedPercent > 0 && (
+                                        <>
+                                          <Badge variant="secondary" className="absolute top-2 left-2">
+                                            Watched {watchedPercent}%
+                                          </Badge>
+                                          <div className="absolute inset-x-0 bottom-0 h-1 bg-black/40">
+                                            <div className="h-full bg-primary" style={{ width: `${watchedPercent}%` }} />
+                                          </div>
+                                        </>
+                                      )}
                                     </div>
                                   )}
-                                  <div className="p-3">
-                                    <p className="font-medium">{video.title}</p>
+                                  <div className="p-3 flex items-center justify-between">
+                                    {video.provider ? (
+                                      <p className="font-medium truncate mr-2">{video.title}</p>
+                                    ) : (
+                                      <button
+                                        type="button"
+                                        onClick={() => openVideo(video)}
+                                        className="font-medium truncate mr-2 text-left hover:underline"
+                                      >
+                                        {video.title}
+                                      </button>
+                                    )}
+                                    <Button
+                                      size="sm"
+                                      variant={completed ? 'secondary' : 'ghost'}
+                                      onClick={() => setCompleted('video', video.id, !completed)}
+                                      title={completed ? 'Mark as not complete' : 'Mark complete'}
+                                    >
+                                      {completed ? <CheckCircle2 className="w-4 h-4 text-primary" /> : <Circle className="w-4 h-4" />}
+                                    </Button>
                                   </div>
                                 </div>
                               );
@@ -0,0 +1,353 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreview } from '@/contexts/PreviewContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import VideoPlayer, { PlayerHandle, VideoStream } from '@/components/videos/VideoPlayer';
+import VideoOutline from '@/components/videos/VideoOutline';
+import PreviewBanner from '@/components/dashboard/PreviewBanner';
+import SearchPalette from '@/components/search/SearchPalette';
+import { useProgress } from '@/hooks/use-progress';
+import { WATCH_COMPLETE_PERCENT } from '@/lib/progress';
+import { isReleased } from '@/lib/publishing';
+import { VideoProvider, videoSourceFromRow } from '@/lib/video-source';
+import { VideoSection } from '@/lib/video-sections';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, CheckCircle2, Circle } from 'lucide-react';
+
+interface VideoContent {
+  id: string;
+  title: string;
+  source_url: string;
+  provider: VideoProvider | null;
+  provider_video_id: string | null;
+  chapter_id: string;
+}
+
+interface Chapter {
+  id: string;
+  title: string;
+  subject_id: string;
+}
+
+interface Subject {
+  id: string;
+  name: string;
+}
+
+const SAVE_INTERVAL_SECONDS = 10;
+// Players report about once a second. A position further ahead of the previous
+// report than the fastest playback speed could reach is a seek, not watching.
+const MAX_PLAYBACK_RATE = 2;
+const SAMPLE_SLACK_SECONDS = 1;
+
+const VideoViewer = () => {
+  const { subjectId, videoId } = useParams<{ subjectId: string; videoId: string }>();
+  const navigate = useNavigate();
+  const { userData, hasAccess } = useAuth();
+  const { previewAsLearner } = usePreview();
+  const { loaded: progressLoaded, getRecord, saveRecord, isCompleted, markOpened, setCompleted } = useProgress();
+  const [video, setVideo] = useState<VideoContent | null>(null);
+  const [stream, setStream] = useState<VideoStream | null>(null);
+  const [sections, setSections] = useState<VideoSection[]>([]);
+  // Where playback is, for highlighting the current section of the outline
+  const [positionSeconds, setPositionSeconds] = useState(0);
+  const playerRef = useRef<PlayerHandle>(null);
+  const [chapter, setChapter] = useState<Chapter | null>(null);
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sessionPercent, setSessionPercent] = useState(0);
+
+  // Seconds of the video seen so far. The stored percentage is treated as watched
+  // from the start, so re-watching the same part never counts twice.
+  const watchedSecondsRef = useRef<Set<number> | null>(null);
+  const lastSavedPositionRef = useRef(0);
+  // Previous report while playing, so the seconds between two reports count too
+  const lastSampleRef = useRef<{ position: number; at: number } | null>(null);
+  // Completes the video once per visit, so un-marking it by hand sticks
+  const autoCompletedRef = useRef(false);
+
+  useEffect(() => {
+    if (!subjectId || !videoId || !hasAccess) {
+      navigate('/');
+      return;
+    }
+    fetchVideoData();
+  }, [subjectId, videoId, userData, hasAccess, previewAsLearner]);
+
+  useEffect(() => {
+    if (video && progressLoaded) {
+      markOpened('video', video.id);
+    }
+  }, [video, progressLoaded, markOpened]);
+
+  const fetchVideoData = async () => {
+    try {
+      const { data: videoData, error: videoError } = await supabase
+        .from('videos')
+        .select('id, title, source_url, provider, provider_video_id, chapter_id, status, publish_at')
+        .is('deleted_at', null)
+        .eq('id', videoId)
+        .single();
+
+      if (videoError) throw videoError;
+      setVideo(videoData);
+
+      if (videoData.provider === 'storage') {
+        const { data: transcodeData, error: transcodeError } = await supabase
+          .from('video_transcodes')
+          .select('playlist_path, poster_path')
+          .eq('video_id', videoData.id)
+          .eq('status', 'ready')
+          .maybeSingle();
+
+        if (transcodeError) throw transcodeError;
+        setStream(transcodeData?.playlist_path
+          ? { playlistPath: transcodeData.playlist_path, posterPath: transcodeData.poster_path }
+          : null);
+      } else {
+        setStream(null);
+      }
+
+      const { data: sectionsData, error: sectionsError } = await supabase
+        .from('video_sections')
+        .select('title, start_seconds')
+        .eq('video_id', videoData.id)
+        .order('start_seconds');
+
+      if (sectionsError) throw sectionsError;
+      setSections(sectionsData || []);
+
+      const { data: chapterData, error: chapterError } = await supabase
+        .from('chapters')
+        .select('id, title, subject_id, status, publish_at')
+        .is('deleted_at', null)
+        .eq('id', videoData.chapter_id)
+        .single();
+
+      if (chapterError) throw chapterError;
+      setChapter(chapterData);
+
+      const { data: subjectData, error: subjectError } = await supabase
+        .from('subjects')
+        .select('id, name, status, publish_at')
+        .is('deleted_at', null)
+        .eq('id', chapterData.subject_id)
+        .single();
+
+      if (subjectError) throw subjectError;
+
+      // Staff previewing as a learner get the same not-found a learner would
+      if (previewAsLearner && ![videoData, chapterData, subjectData].every(isReleased)) {
+        throw new Error('Video is not released yet');
+      }
+      setSubject(subjectData);
+    } catch (error) {
+      console.error('Error fetching video:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const watchedPercent = Math.max(video ? getRecord('video', video.id)?.watched_percent ?? 0 : 0, sessionPercent);
+
+  const recordWatching = (positionSeconds: number, durationSeconds: number) => {
+    if (!video || durationSeconds <= 0) return 0;
+
+    const totalSeconds = Math.ceil(durationSeconds);
+    if (!watchedSecondsRef.current) {
+      const storedSeconds = Math.floor(totalSeconds * watchedPercent / 100);
+      watchedSecondsRef.current = new Set(Array.from({ length: storedSeconds }, (_, second) => second));
+    }
+
+    const now = Date.now();
+    const previous = lastSampleRef.current;
+    lastSampleRef.current = { position: positionSeconds, at: now };
+
+    const reachable = previous
+      ? ((now - previous.at) / 1000) * MAX_PLAYBACK_RATE + SAMPLE_SLACK_SECONDS
+      : 0;
+    const playedThrough = !!previous && positionSeconds >= previous.position &&
+      positionSeconds - previous.position <= reachable;
+    const from = previous && playedThrough ? Math.floor(previous.position) : Math.floor(positionSeconds);
+    for (let second = from; second <= Math.floor(positionSeconds); second++) {
+      watchedSecondsRef.current.add(second);
+    }
+
+    const percent = Math.max(
+      watchedPercent,
+      Math.min(100, Math.round((watchedSecondsRef.current.size / totalSeconds) * 100))
+    );
+    setSessionPercent(percent);
+
+    if (percent >= WATCH_COMPLETE_PERCENT && !autoCompletedRef.current) {
+      autoCompletedRef.current = true;
+      if (!isCompleted('video', video.id)) setCompleted('video', video.id, true);
+    }
+    return percent;
+  };
+
+  const saveWatching = (positionSeconds: number, percent: number) => {
+    if (!video) return;
+    lastSavedPositionRef.current = positionSeconds;
+    saveRecord('video', video.id, { position_seconds: Math.floor(positionSeconds), watched_percent: percent });
+  };
+
+  const handleTimeUpdate = (positionSeconds: number, durationSeconds: number) => {
+    setPositionSeconds(positionSeconds);
+    const percent = recordWatching(positionSeconds, durationSeconds);
+    if (Math.abs(positionSeconds - lastSavedPositionRef.current) >= SAVE_INTERVAL_SECONDS) {
+      saveWatching(positionSeconds, percent);
+    }
+  };
+
+  const handleStop = (positionSeconds: number, durationSeconds: number, ended: boolean) => {
+    setPositionSeconds(positionSeconds);
+    const percent = recordWatching(positionSeconds, durationSeconds);
+    // Anything can happen while paused, so the next report starts a new stretch
+    lastSampleRef.current = null;
+    // Finished videos start over next time instead of resuming on the end screen
+    saveWatching(ended ? 0 : positionSeconds, percent);
+  };
+
+  const seekTo = (seconds: number) => {
+    setPositionSeconds(seconds);
+    playerRef.current?.seekTo(seconds);
+  };
+
+  if (loading || !progressLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!video || !chapter || !subject) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-2">Video Not Found</h2>
+          <p className="text-muted-foreground mb-4">The video you're looking for doesn't exist.</p>
+          <Button onClick={() => navigate(`/subjects/${subjectId}`)}>Go Back to Subject</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const chapterPath = `/subjects/${subject.id}#chapter-${chapter.id}`;
+  const completed = isCompleted('video', video.id);
+  const source = videoSourceFromRow(video);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PreviewBanner />
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 space-y-4">
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <Link to="/">Dashboard</Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <Link to={`/subjects/${subject.id}`}>{subject.name}</Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <Link to={chapterPath}>{chapter.title}</Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbPage>{video.title}</BreadcrumbPage>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" onClick={() => navigate(chapterPath)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Chapter
+              </Button>
+              <h1 className="text-2xl font-bold">{video.title}</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <SearchPalette />
+              <Button
+                variant={completed ? 'secondary' : 'outline'}
+                onClick={() => setCompleted('video', video.id, !completed)}
+              >
+                {completed ? <CheckCircle2 className="w-4 h-4 mr-2 text-primary" /> : <Circle className="w-4 h-4 mr-2" />}
+                {completed ? 'Completed' : 'Mark complete'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main
+        className={cn(
+          'container mx-auto px-4 py-6 grid gap-6',
+          source && sections.length > 0 ? 'max-w-6xl lg:grid-cols-[minmax(0,1fr)_18rem]' : 'max-w-5xl'
+        )}
+      >
+        <div className="space-y-3">
+          {source ? (
+            <VideoPlayer
+              ref={playerRef}
+              key={video.id}
+              source={source}
+              stream={stream}
+              startSeconds={getRecord('video', video.id)?.position_seconds ?? source.startSeconds}
+              onTimeUpdate={handleTimeUpdate}
+              onStop={handleStop}
+            />
+          ) : (
+            <div className="aspect-video w-full rounded-lg bg-muted flex flex-col items-center justify-center gap-2 text-center p-4">
+              <p className="text-muted-foreground">This video's link is not supported by the player.</p>
+              <a href={video.source_url} target="_blank" rel="noreferrer" className="text-primary underline">
+                Open the original link
+              </a>
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Progress value={watchedPercent} className="h-2 w-32" />
+            Watched {watchedPercent}%
+          </div>
+        </div>
+        {source && sections.length > 0 && (
+          <VideoOutline sections={sections} positionSeconds={positionSeconds} onSelect={seekTo} />
+        )}
+      </main>
+    </div>
+  );
+};
+
+// Moving to another video remounts the page, so watch tracking and the
+// once-per-visit completion start over for it
+const VideoViewerPage = () => {
+  const { videoId } = useParams<{ videoId: string }>();
+  return <VideoViewer key={videoId} />;
+};
+
+export default VideoViewerPage;
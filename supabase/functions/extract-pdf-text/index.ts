@@ -0,0 +1,127 @@
+// Extracts the text of note PDFs page by page into public.note_pages for search.
+// Called by pg_cron with the service role key to work through new, replaced and
+// not yet indexed PDFs, or by a content manager right after an upload with
+// { note_ids } to index those notes immediately.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getDocument } from 'https://esm.sh/pdfjs-dist@4.10.38/legacy/build/pdf.mjs';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// PDF parsing is slow, so keep each run well inside the function time limit
+const BATCH_SIZE = 10;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isAuthorized = async (authorization: string) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (authorization === `Bearer ${serviceRoleKey}`) return true;
+
+  const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data, error } = await userClient.rpc('can_manage_content');
+  return !error && data === true;
+};
+
+const extractPages = async (data: Uint8Array) => {
+  const pdf = await getDocument({ data, isEvalSupported: false, disableFontFace: true }).promise;
+  const pages: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(
+        content.items
+          .map((item) => ('str' in item ? item.str : ''))
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .trim()
+      );
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (!(await isAuthorized(req.headers.get('Authorization') ?? ''))) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { note_ids: noteIds } = await req.json().catch(() => ({})) as { note_ids?: string[] };
+
+  const { data: notes, error: notesError } = noteIds?.length
+    ? await supabase.from('notes').select('id, pdf_path').in('id', noteIds.slice(0, BATCH_SIZE))
+    : await supabase.rpc('pending_note_text_extractions', { p_limit: BATCH_SIZE });
+
+  if (notesError) {
+    console.error('Error reading notes to index:', notesError);
+    return json({ error: notesError.message }, 500);
+  }
+
+  let indexed = 0;
+  let failed = 0;
+
+  for (const note of notes ?? []) {
+    let pages: string[] = [];
+    let extractionError: string | null = null;
+
+    try {
+      const { data: file, error: downloadError } = await supabase.storage.from('pdfs').download(note.pdf_path);
+      if (downloadError) throw downloadError;
+      pages = await extractPages(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      console.error(`Error extracting text from ${note.pdf_path}:`, error);
+      extractionError = error instanceof Error ? error.message : String(error);
+    }
+
+    // Replace the pages wholesale; a failed extraction leaves the note unsearchable by content
+    await supabase.from('note_pages').delete().eq('note_id', note.id);
+
+    const rows = pages
+      .map((content, index) => ({ note_id: note.id, page_number: index + 1, content }))
+      .filter((row) => row.content);
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase.from('note_pages').insert(rows);
+      if (insertError) {
+        console.error(`Error saving pages of ${note.pdf_path}:`, insertError);
+        extractionError = insertError.message;
+      }
+    }
+
+    await supabase.from('note_text_extractions').upsert({
+      note_id: note.id,
+      pdf_path: note.pdf_path,
+      page_count: pages.length,
+      error: extractionError,
+      // Notes requested by id count from the first attempt again
+      attempts: (note.attempts ?? 0) + 1,
+      extracted_at: new Date().toISOString(),
+    });
+
+    if (extractionError) {
+      failed++;
+    } else {
+      indexed++;
+    }
+  }
+
+  return json({ indexed, failed });
+});
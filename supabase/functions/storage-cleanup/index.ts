@@ -0,0 +1,83 @@
+// Removes storage objects queued in public.storage_deletions.
+// Called by pg_cron with the service role key, or by an admin from the Storage tab.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 500;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isAuthorized = async (authorization: string) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (authorization === `Bearer ${serviceRoleKey}`) return true;
+
+  const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data, error } = await userClient.rpc('is_admin');
+  return !error && data === true;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (!(await isAuthorized(req.headers.get('Authorization') ?? ''))) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: queued, error: queueError } = await supabase
+    .from('storage_deletions')
+    .select('*')
+    .order('created_at')
+    .limit(BATCH_SIZE);
+
+  if (queueError) {
+    console.error('Error reading storage deletion queue:', queueError);
+    return json({ error: queueError.message }, 500);
+  }
+
+  const byBucket = new Map<string, typeof queued>();
+  for (const row of queued ?? []) {
+    byBucket.set(row.bucket_id, [...(byBucket.get(row.bucket_id) ?? []), row]);
+  }
+
+  let removed = 0;
+  let failed = 0;
+
+  for (const [bucket, rows] of byBucket) {
+    // Removing an object that is already gone is not an error, so retries are safe
+    const { error } = await supabase.storage.from(bucket).remove(rows.map(row => row.object_name));
+
+    if (error) {
+      console.error(`Error removing objects from ${bucket}:`, error);
+      failed += rows.length;
+      for (const row of rows) {
+        await supabase
+          .from('storage_deletions')
+          .update({ attempts: row.attempts + 1, last_error: error.message })
+          .eq('id', row.id);
+      }
+      continue;
+    }
+
+    await supabase
+      .from('storage_deletions')
+      .delete()
+      .in('id', rows.map(row => row.id));
+    removed += rows.length;
+  }
+
+  return json({ removed, failed });
+});
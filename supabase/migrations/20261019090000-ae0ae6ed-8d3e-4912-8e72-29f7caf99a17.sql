@@ -0,0 +1,86 @@
+-- Resolve the public.users row of the signed-in user from the JWT email
+CREATE OR REPLACE FUNCTION public.current_user_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT id FROM public.users WHERE email = (auth.jwt() ->> 'email');
+$function$;
+
+-- Generic trigger to keep updated_at current
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$function$;
+
+-- Create progress table, one row per learner and content item
+CREATE TABLE public.progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  content_type TEXT NOT NULL CHECK (content_type IN ('note', 'video')),
+  content_id UUID NOT NULL,
+  opened_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, content_type, content_id)
+);
+
+CREATE INDEX idx_progress_user_id ON public.progress (user_id);
+
+CREATE TRIGGER update_progress_updated_at
+  BEFORE UPDATE ON public.progress
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS on progress table
+ALTER TABLE public.progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own progress"
+ON public.progress FOR SELECT
+USING (user_id = public.current_user_id());
+
+CREATE POLICY "Users can insert their own progress"
+ON public.progress FOR INSERT
+WITH CHECK (user_id = public.current_user_id());
+
+CREATE POLICY "Users can update their own progress"
+ON public.progress FOR UPDATE
+USING (user_id = public.current_user_id());
+
+CREATE POLICY "Users can delete their own progress"
+ON public.progress FOR DELETE
+USING (user_id = public.current_user_id());
+
+CREATE POLICY "Admins can view all progress"
+ON public.progress FOR SELECT
+USING (public.is_admin());
+
+-- content_id is polymorphic, so clean up progress rows when the item goes away
+CREATE OR REPLACE FUNCTION public.delete_content_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  DELETE FROM public.progress
+  WHERE content_type = TG_ARGV[0] AND content_id = OLD.id;
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER on_note_deleted_delete_progress
+  AFTER DELETE ON public.notes
+  FOR EACH ROW EXECUTE FUNCTION public.delete_content_progress('note');
+
+CREATE TRIGGER on_video_deleted_delete_progress
+  AFTER DELETE ON public.videos
+  FOR EACH ROW EXECUTE FUNCTION public.delete_content_progress('video');
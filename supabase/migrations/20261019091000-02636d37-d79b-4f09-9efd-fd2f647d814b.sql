@@ -0,0 +1,3 @@
+-- Remember the last page a learner read in each note
+ALTER TABLE public.progress
+ADD COLUMN last_page INTEGER CHECK (last_page IS NULL OR last_page > 0);
@@ -0,0 +1,25 @@
+-- Make the PDFs bucket private; files are served through signed URLs only
+UPDATE storage.buckets SET public = false WHERE id = 'pdfs';
+
+DROP POLICY IF EXISTS "Anyone can view PDFs" ON storage.objects;
+
+-- createSignedUrl requires SELECT on the object, so signed URLs can only be
+-- minted by users who pass user_has_access (or admins)
+CREATE POLICY "Users with access can view PDFs"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'pdfs'
+  AND (public.user_has_access(auth.jwt() ->> 'email') OR public.is_admin())
+);
+
+-- Store the object path inside the bucket instead of a public URL
+ALTER TABLE public.notes
+RENAME COLUMN pdf_url TO pdf_path;
+
+UPDATE public.notes
+SET pdf_path = regexp_replace(
+  split_part(pdf_path, '?', 1),
+  '^https?://[^/]+/storage/v1/object/(public|sign|authenticated)/pdfs/',
+  ''
+)
+WHERE pdf_path ~ '^https?://';
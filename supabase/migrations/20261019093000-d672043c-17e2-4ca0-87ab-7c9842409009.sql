@@ -0,0 +1,125 @@
+-- Per-subject access grants. users.access stays as an "all subjects" pass.
+CREATE TABLE public.subject_access (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, subject_id),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX idx_subject_access_subject_id ON public.subject_access (subject_id);
+
+ALTER TABLE public.subject_access ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own subject access"
+ON public.subject_access FOR SELECT
+USING (user_id = public.current_user_id());
+
+CREATE POLICY "Admins can manage subject access"
+ON public.subject_access FOR ALL
+USING (public.is_admin());
+
+-- Check whether the signed-in user may view a subject
+CREATE OR REPLACE FUNCTION public.user_has_subject_access(p_subject_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN public.user_has_access(auth.jwt() ->> 'email') OR EXISTS (
+    SELECT 1 FROM public.subject_access sa
+    JOIN public.users u ON u.id = sa.user_id
+    WHERE u.email = (auth.jwt() ->> 'email')
+      AND sa.subject_id = p_subject_id
+      AND (sa.starts_at IS NULL OR sa.starts_at <= now())
+      AND (sa.ends_at IS NULL OR sa.ends_at > now())
+  );
+END;
+$function$;
+
+-- Same check for content that hangs off a chapter
+CREATE OR REPLACE FUNCTION public.user_has_chapter_access(p_chapter_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN public.user_has_subject_access(
+    (SELECT subject_id FROM public.chapters WHERE id = p_chapter_id)
+  );
+END;
+$function$;
+
+-- Whether the signed-in user can see anything at all (drives the pending screen)
+CREATE OR REPLACE FUNCTION public.user_has_any_access()
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN public.user_has_access(auth.jwt() ->> 'email') OR EXISTS (
+    SELECT 1 FROM public.subject_access sa
+    JOIN public.users u ON u.id = sa.user_id
+    WHERE u.email = (auth.jwt() ->> 'email')
+      AND (sa.starts_at IS NULL OR sa.starts_at <= now())
+      AND (sa.ends_at IS NULL OR sa.ends_at > now())
+  );
+END;
+$function$;
+
+-- Whether the signed-in user may read a PDF object in the pdfs bucket
+CREATE OR REPLACE FUNCTION public.user_has_pdf_access(p_object_name text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.notes n
+    WHERE n.pdf_path = p_object_name
+      AND public.user_has_chapter_access(n.chapter_id)
+  );
+END;
+$function$;
+
+-- Replace the global access policies with per-subject checks
+DROP POLICY IF EXISTS "Users with access can view subjects" ON public.subjects;
+DROP POLICY IF EXISTS "Users with access can view chapters" ON public.chapters;
+DROP POLICY IF EXISTS "Users with access can view notes" ON public.notes;
+DROP POLICY IF EXISTS "Users with access can view videos" ON public.videos;
+
+CREATE POLICY "Users can view subjects they have access to"
+ON public.subjects FOR SELECT
+USING (public.user_has_subject_access(id));
+
+CREATE POLICY "Users can view chapters of subjects they have access to"
+ON public.chapters FOR SELECT
+USING (public.user_has_subject_access(subject_id));
+
+CREATE POLICY "Users can view notes of subjects they have access to"
+ON public.notes FOR SELECT
+USING (public.user_has_chapter_access(chapter_id));
+
+CREATE POLICY "Users can view videos of subjects they have access to"
+ON public.videos FOR SELECT
+USING (public.user_has_chapter_access(chapter_id));
+
+DROP POLICY IF EXISTS "Users with access can view PDFs" ON storage.objects;
+
+CREATE POLICY "Users with access can view PDFs"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'pdfs'
+  AND (public.user_has_pdf_access(name) OR public.is_admin())
+);
@@ -0,0 +1,30 @@
+-- Time-limited access: access lapses automatically once access_expires_at passes
+ALTER TABLE public.users
+ADD COLUMN access_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN renewal_requested_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.user_has_access(user_email TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.users 
+    WHERE email = user_email
+      AND access = true
+      AND (access_expires_at IS NULL OR access_expires_at > now())
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Lets a learner whose access lapsed ask an admin for renewal
+CREATE OR REPLACE FUNCTION public.request_access_renewal()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.users
+  SET renewal_requested_at = now()
+  WHERE email = (auth.jwt() ->> 'email');
+END;
+$function$;
@@ -0,0 +1,91 @@
+-- Invite codes that grant access when redeemed
+CREATE TABLE public.invite_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(code) AND length(code) >= 4),
+  max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses > 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  -- NULL scope grants every subject (users.access), otherwise a single subject
+  subject_id UUID REFERENCES public.subjects(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.invite_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invite_code_id UUID NOT NULL REFERENCES public.invite_codes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  redeemed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (invite_code_id, user_id)
+);
+
+ALTER TABLE public.invite_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invite_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage invite codes"
+ON public.invite_codes FOR ALL
+USING (public.is_admin());
+
+CREATE POLICY "Admins can view invite redemptions"
+ON public.invite_redemptions FOR SELECT
+USING (public.is_admin());
+
+-- Redeem an invite code for the signed-in user. Learners have no direct
+-- access to invite_codes; this function validates and grants in one step.
+CREATE OR REPLACE FUNCTION public.redeem_invite_code(p_code text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_user_id uuid := public.current_user_id();
+  v_invite public.invite_codes%ROWTYPE;
+  v_uses integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to redeem an invite code';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM public.invite_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid invite code';
+  END IF;
+
+  IF v_invite.expires_at IS NOT NULL AND v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite code has expired';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invite_redemptions
+    WHERE invite_code_id = v_invite.id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You have already redeemed this invite code';
+  END IF;
+
+  SELECT count(*) INTO v_uses
+  FROM public.invite_redemptions
+  WHERE invite_code_id = v_invite.id;
+
+  IF v_uses >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'This invite code has reached its usage limit';
+  END IF;
+
+  INSERT INTO public.invite_redemptions (invite_code_id, user_id)
+  VALUES (v_invite.id, v_user_id);
+
+  IF v_invite.subject_id IS NULL THEN
+    UPDATE public.users
+    SET access = true, access_expires_at = NULL, renewal_requested_at = NULL
+    WHERE id = v_user_id;
+  ELSE
+    INSERT INTO public.subject_access (user_id, subject_id)
+    VALUES (v_user_id, v_invite.subject_id)
+    ON CONFLICT (user_id, subject_id)
+    DO UPDATE SET starts_at = NULL, ends_at = NULL;
+  END IF;
+END;
+$function$;
@@ -0,0 +1,79 @@
+-- Admin-managed rules that approve sign-ups from partner email domains
+CREATE TABLE public.auto_approval_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- "school.edu" matches that domain only, "*.school.edu" also matches subdomains
+  domain_pattern TEXT NOT NULL UNIQUE CHECK (domain_pattern ~ '^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+$'),
+  role TEXT NOT NULL DEFAULT 'user',
+  -- Empty means every subject (users.access), otherwise grant just these
+  subject_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.auto_approval_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage auto approval rules"
+ON public.auto_approval_rules FOR ALL
+USING (public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.email_matches_domain(p_email text, p_pattern text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN p_pattern LIKE '*.%' THEN
+      lower(split_part(p_email, '@', 2)) = substr(p_pattern, 3)
+      OR lower(split_part(p_email, '@', 2)) LIKE '%.' || substr(p_pattern, 3)
+    ELSE
+      lower(split_part(p_email, '@', 2)) = p_pattern
+  END;
+$function$;
+
+-- Apply the most specific matching rule once the user has confirmed they own
+-- the address. Until then a sign-up at a partner domain is just a pending user.
+CREATE OR REPLACE FUNCTION public.apply_auto_approval_rule()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_rule public.auto_approval_rules%ROWTYPE;
+  v_user_id uuid;
+BEGIN
+  IF NEW.email_confirmed_at IS NULL
+    OR (TG_OP = 'UPDATE' AND OLD.email_confirmed_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_rule
+  FROM public.auto_approval_rules
+  WHERE public.email_matches_domain(NEW.email, domain_pattern)
+  ORDER BY length(domain_pattern) DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  -- Users an admin has already approved keep what they were given
+  UPDATE public.users
+  SET access = cardinality(v_rule.subject_ids) = 0,
+      role = v_rule.role
+  WHERE email = NEW.email AND NOT access
+  RETURNING id INTO v_user_id;
+
+  IF v_user_id IS NOT NULL THEN
+    INSERT INTO public.subject_access (user_id, subject_id)
+    SELECT v_user_id, s.id
+    FROM public.subjects s
+    WHERE s.id = ANY (v_rule.subject_ids)
+    ON CONFLICT (user_id, subject_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Covers sign-ups that arrive confirmed as well as later confirmation links.
+-- Triggers fire in name order, so on_auth_user_created has made the users row by now.
+CREATE TRIGGER on_auth_user_email_confirmed
+  AFTER INSERT OR UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.apply_auto_approval_rule();
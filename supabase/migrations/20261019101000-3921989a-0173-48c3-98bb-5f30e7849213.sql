@@ -0,0 +1,174 @@
+-- Access requests submitted from the pending screen, decided by admins
+CREATE TABLE public.access_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'access' CHECK (kind IN ('access', 'renewal')),
+  full_name TEXT,
+  institution TEXT,
+  reason TEXT,
+  subject_ids UUID[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  admin_message TEXT,
+  decided_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind = 'renewal' OR (full_name IS NOT NULL AND reason IS NOT NULL))
+);
+
+-- Only one open request per user at a time
+CREATE UNIQUE INDEX idx_access_requests_one_pending
+ON public.access_requests (user_id)
+WHERE status = 'pending';
+
+ALTER TABLE public.access_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own access requests"
+ON public.access_requests FOR SELECT
+USING (user_id = public.current_user_id());
+
+CREATE POLICY "Users can submit their own access requests"
+ON public.access_requests FOR INSERT
+WITH CHECK (
+  user_id = public.current_user_id()
+  AND status = 'pending'
+  AND admin_message IS NULL
+  AND decided_by IS NULL
+  AND decided_at IS NULL
+);
+
+CREATE POLICY "Admins can view all access requests"
+ON public.access_requests FOR SELECT
+USING (public.is_admin());
+
+-- Open renewal requests join the queue; users.renewal_requested_at stays as
+-- the flag for the Users tab while the request is pending
+INSERT INTO public.access_requests (user_id, kind, created_at)
+SELECT id, 'renewal', renewal_requested_at
+FROM public.users
+WHERE renewal_requested_at IS NOT NULL;
+
+-- Renewals are for access that has ended or ends within a week. Asking again
+-- while a request is open changes nothing.
+CREATE OR REPLACE FUNCTION public.request_access_renewal()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_user_id uuid := public.current_user_id();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to request a renewal';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = v_user_id AND access AND access_expires_at <= now() + interval '7 days'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.subject_access
+    WHERE user_id = v_user_id AND ends_at <= now() + interval '7 days'
+  ) THEN
+    RAISE EXCEPTION 'Your access is not expiring, so there is nothing to renew';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.access_requests
+    WHERE user_id = v_user_id AND status = 'pending'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.access_requests (user_id, kind)
+  VALUES (v_user_id, 'renewal');
+
+  UPDATE public.users
+  SET renewal_requested_at = now()
+  WHERE id = v_user_id;
+END;
+$function$;
+
+-- Subject names for the request form; learners cannot read subjects yet
+CREATE OR REPLACE FUNCTION public.list_subject_catalog()
+RETURNS TABLE (id uuid, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT id, name FROM public.subjects ORDER BY name;
+$function$;
+
+-- Approve or reject a pending request, granting access on approval.
+-- Approving a renewal needs the date the renewed access ends.
+CREATE OR REPLACE FUNCTION public.decide_access_request(
+  p_request_id uuid,
+  p_approve boolean,
+  p_message text DEFAULT NULL,
+  p_access_expires_at timestamp with time zone DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_request public.access_requests%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can decide access requests';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.access_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request is no longer pending';
+  END IF;
+
+  IF p_approve AND v_request.kind = 'renewal'
+     AND (p_access_expires_at IS NULL OR p_access_expires_at <= now()) THEN
+    RAISE EXCEPTION 'Renewals need a new expiry date in the future';
+  END IF;
+
+  UPDATE public.access_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      admin_message = NULLIF(trim(p_message), ''),
+      decided_by = public.current_user_id(),
+      decided_at = now()
+  WHERE id = p_request_id;
+
+  IF v_request.kind = 'renewal' THEN
+    UPDATE public.users
+    SET renewal_requested_at = NULL
+    WHERE id = v_request.user_id;
+  END IF;
+
+  IF NOT p_approve THEN
+    RETURN;
+  END IF;
+
+  IF v_request.kind = 'renewal' THEN
+    UPDATE public.users
+    SET access_expires_at = p_access_expires_at
+    WHERE id = v_request.user_id AND access;
+
+    UPDATE public.subject_access
+    SET ends_at = p_access_expires_at
+    WHERE user_id = v_request.user_id AND ends_at <= now();
+  ELSIF cardinality(v_request.subject_ids) = 0 THEN
+    UPDATE public.users
+    SET access = true, access_expires_at = NULL
+    WHERE id = v_request.user_id;
+  ELSE
+    INSERT INTO public.subject_access (user_id, subject_id)
+    SELECT v_request.user_id, s.id
+    FROM public.subjects s
+    WHERE s.id = ANY (v_request.subject_ids)
+    ON CONFLICT (user_id, subject_id)
+    DO UPDATE SET starts_at = NULL, ends_at = NULL;
+  END IF;
+END;
+$function$;
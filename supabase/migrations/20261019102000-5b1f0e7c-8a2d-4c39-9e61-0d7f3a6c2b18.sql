@@ -0,0 +1,163 @@
+-- Single role model replacing the role text column and the is_admin flag
+CREATE TYPE public.app_role AS ENUM ('admin', 'editor', 'moderator', 'learner');
+
+-- Older installs toggled admins through users.is_admin; fold it into role first
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'users' AND column_name = 'is_admin'
+  ) THEN
+    UPDATE public.users SET role = 'admin' WHERE is_admin;
+    ALTER TABLE public.users DROP COLUMN is_admin;
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.users ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.users
+ALTER COLUMN role TYPE public.app_role
+USING (CASE WHEN role IN ('admin', 'editor', 'moderator') THEN role ELSE 'learner' END)::public.app_role;
+ALTER TABLE public.users ALTER COLUMN role SET DEFAULT 'learner';
+
+ALTER TABLE public.auto_approval_rules ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.auto_approval_rules
+ALTER COLUMN role TYPE public.app_role
+USING (CASE WHEN role IN ('admin', 'editor', 'moderator') THEN role ELSE 'learner' END)::public.app_role;
+ALTER TABLE public.auto_approval_rules ALTER COLUMN role SET DEFAULT 'learner';
+
+-- A rule must never turn every sign-up from a domain into an admin
+UPDATE public.auto_approval_rules SET role = 'learner' WHERE role = 'admin';
+ALTER TABLE public.auto_approval_rules
+ADD CONSTRAINT auto_approval_rules_role_check CHECK (role <> 'admin');
+
+-- Role of the signed-in user, NULL when they have no users row yet
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS public.app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT role FROM public.users WHERE email = (auth.jwt() ->> 'email');
+$function$;
+
+CREATE OR REPLACE FUNCTION public.has_role(p_role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT coalesce(public.current_user_role() = p_role, false);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN public.has_role('admin');
+END;
+$function$;
+
+-- Editors manage subjects, chapters, notes and videos but not users
+CREATE OR REPLACE FUNCTION public.can_manage_content()
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN coalesce(public.current_user_role() IN ('admin', 'editor'), false);
+END;
+$function$;
+
+-- Moderators handle learner comments and reports
+CREATE OR REPLACE FUNCTION public.can_moderate()
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN coalesce(public.current_user_role() IN ('admin', 'moderator'), false);
+END;
+$function$;
+
+-- Staff who can manage content never see the access pending screen
+CREATE OR REPLACE FUNCTION public.user_has_any_access()
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN public.can_manage_content() OR public.user_has_access(auth.jwt() ->> 'email') OR EXISTS (
+    SELECT 1 FROM public.subject_access sa
+    JOIN public.users u ON u.id = sa.user_id
+    WHERE u.email = (auth.jwt() ->> 'email')
+      AND (sa.starts_at IS NULL OR sa.starts_at <= now())
+      AND (sa.ends_at IS NULL OR sa.ends_at > now())
+  );
+END;
+$function$;
+
+-- Self-inserted user rows cannot pick their own role or access
+DROP POLICY IF EXISTS "Users can insert their own record" ON public.users;
+
+CREATE POLICY "Users can insert their own record"
+ON public.users FOR INSERT
+WITH CHECK (email = (auth.jwt() ->> 'email') AND role = 'learner' AND access = false);
+
+-- Content policies move from admins to everyone who can manage content
+DROP POLICY IF EXISTS "Admins can manage subjects" ON public.subjects;
+DROP POLICY IF EXISTS "Admins can manage chapters" ON public.chapters;
+DROP POLICY IF EXISTS "Admins can manage notes" ON public.notes;
+DROP POLICY IF EXISTS "Admins can manage videos" ON public.videos;
+
+CREATE POLICY "Content managers can manage subjects"
+ON public.subjects FOR ALL
+USING (public.can_manage_content());
+
+CREATE POLICY "Content managers can manage chapters"
+ON public.chapters FOR ALL
+USING (public.can_manage_content());
+
+CREATE POLICY "Content managers can manage notes"
+ON public.notes FOR ALL
+USING (public.can_manage_content());
+
+CREATE POLICY "Content managers can manage videos"
+ON public.videos FOR ALL
+USING (public.can_manage_content());
+
+DROP POLICY IF EXISTS "Users with access can view PDFs" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can upload PDFs" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can update PDFs" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can delete PDFs" ON storage.objects;
+
+CREATE POLICY "Users with access can view PDFs"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'pdfs'
+  AND (public.user_has_pdf_access(name) OR public.can_manage_content())
+);
+
+CREATE POLICY "Content managers can upload PDFs"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'pdfs' AND public.can_manage_content());
+
+CREATE POLICY "Content managers can update PDFs"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'pdfs' AND public.can_manage_content());
+
+CREATE POLICY "Content managers can delete PDFs"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'pdfs' AND public.can_manage_content());
@@ -0,0 +1,81 @@
+-- Append-only record of every change to users and course content
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- No foreign key: entries must outlive the users they mention
+  actor_id UUID,
+  actor_email TEXT,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  entity TEXT NOT NULL,
+  entity_id UUID,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log (created_at DESC);
+CREATE INDEX idx_audit_log_actor_id ON public.audit_log (actor_id);
+CREATE INDEX idx_audit_log_entity ON public.audit_log (entity, entity_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the trigger below, so there is no insert policy
+CREATE POLICY "Admins can view the audit log"
+ON public.audit_log FOR SELECT
+USING (public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$function$;
+
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE OR TRUNCATE ON public.audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Changes made without a signed-in user (e.g. sign-up) have no actor
+  INSERT INTO public.audit_log (actor_id, actor_email, action, entity, entity_id, before, after)
+  VALUES (
+    public.current_user_id(),
+    auth.jwt() ->> 'email',
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER audit_users
+AFTER INSERT OR UPDATE OR DELETE ON public.users
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_subjects
+AFTER INSERT OR UPDATE OR DELETE ON public.subjects
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_chapters
+AFTER INSERT OR UPDATE OR DELETE ON public.chapters
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_notes
+AFTER INSERT OR UPDATE OR DELETE ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_videos
+AFTER INSERT OR UPDATE OR DELETE ON public.videos
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
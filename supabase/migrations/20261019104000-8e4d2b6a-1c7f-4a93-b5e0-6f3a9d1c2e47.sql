@@ -0,0 +1,92 @@
+-- Explicit ordering for chapters within a subject and content within a chapter.
+-- Positions start at 1; inserting with position 0 appends to the end.
+ALTER TABLE public.chapters ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.notes ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.videos ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill from the ordering the learner views used until now
+UPDATE public.chapters c
+SET position = o.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY subject_id ORDER BY created_at, id) AS position
+  FROM public.chapters
+) o
+WHERE c.id = o.id;
+
+UPDATE public.notes n
+SET position = o.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY chapter_id ORDER BY title, id) AS position
+  FROM public.notes
+) o
+WHERE n.id = o.id;
+
+UPDATE public.videos v
+SET position = o.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY chapter_id ORDER BY title, id) AS position
+  FROM public.videos
+) o
+WHERE v.id = o.id;
+
+CREATE INDEX idx_chapters_subject_position ON public.chapters (subject_id, position);
+CREATE INDEX idx_notes_chapter_position ON public.notes (chapter_id, position);
+CREATE INDEX idx_videos_chapter_position ON public.videos (chapter_id, position);
+
+-- TG_ARGV[0] names the parent column the position is scoped to
+CREATE OR REPLACE FUNCTION public.append_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.position = 0 THEN
+    EXECUTE format(
+      'SELECT coalesce(max(position), 0) + 1 FROM %I.%I WHERE %I = $1',
+      TG_TABLE_SCHEMA, TG_TABLE_NAME, TG_ARGV[0]
+    )
+    INTO NEW.position
+    USING (to_jsonb(NEW) ->> TG_ARGV[0])::uuid;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER append_chapter_position
+BEFORE INSERT ON public.chapters
+FOR EACH ROW EXECUTE FUNCTION public.append_position('subject_id');
+
+CREATE TRIGGER append_note_position
+BEFORE INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.append_position('chapter_id');
+
+CREATE TRIGGER append_video_position
+BEFORE INSERT ON public.videos
+FOR EACH ROW EXECUTE FUNCTION public.append_position('chapter_id');
+
+-- Save a drag-and-drop result: p_ids in their new order
+CREATE OR REPLACE FUNCTION public.reorder_content(p_table text, p_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can reorder content';
+  END IF;
+
+  IF p_table NOT IN ('chapters', 'notes', 'videos') THEN
+    RAISE EXCEPTION 'Cannot reorder %', p_table;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE public.%I t SET position = o.ordinality
+     FROM unnest($1) WITH ORDINALITY AS o(id, ordinality)
+     WHERE t.id = o.id AND t.position IS DISTINCT FROM o.ordinality',
+    p_table
+  )
+  USING p_ids;
+END;
+$function$;
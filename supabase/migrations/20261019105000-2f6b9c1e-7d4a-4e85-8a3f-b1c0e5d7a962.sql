@@ -0,0 +1,230 @@
+-- Soft delete: deleted rows stay in place until restored or purged
+ALTER TABLE public.subjects ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.chapters ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.notes ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.videos ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_subjects_deleted_at ON public.subjects (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_chapters_deleted_at ON public.chapters (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_notes_deleted_at ON public.notes (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_videos_deleted_at ON public.videos (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Access checks treat deleted subjects and chapters as gone
+CREATE OR REPLACE FUNCTION public.user_has_subject_access(p_subject_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.subjects WHERE id = p_subject_id AND deleted_at IS NULL
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.user_has_access(auth.jwt() ->> 'email') OR EXISTS (
+    SELECT 1 FROM public.subject_access sa
+    JOIN public.users u ON u.id = sa.user_id
+    WHERE u.email = (auth.jwt() ->> 'email')
+      AND sa.subject_id = p_subject_id
+      AND (sa.starts_at IS NULL OR sa.starts_at <= now())
+      AND (sa.ends_at IS NULL OR sa.ends_at > now())
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.user_has_chapter_access(p_chapter_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN public.user_has_subject_access(
+    (SELECT subject_id FROM public.chapters WHERE id = p_chapter_id AND deleted_at IS NULL)
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.user_has_pdf_access(p_object_name text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.notes n
+    WHERE n.pdf_path = p_object_name
+      AND n.deleted_at IS NULL
+      AND public.user_has_chapter_access(n.chapter_id)
+  );
+END;
+$function$;
+
+DROP POLICY IF EXISTS "Users can view subjects they have access to" ON public.subjects;
+DROP POLICY IF EXISTS "Users can view chapters of subjects they have access to" ON public.chapters;
+DROP POLICY IF EXISTS "Users can view notes of subjects they have access to" ON public.notes;
+DROP POLICY IF EXISTS "Users can view videos of subjects they have access to" ON public.videos;
+
+CREATE POLICY "Users can view subjects they have access to"
+ON public.subjects FOR SELECT
+USING (deleted_at IS NULL AND public.user_has_subject_access(id));
+
+CREATE POLICY "Users can view chapters of subjects they have access to"
+ON public.chapters FOR SELECT
+USING (deleted_at IS NULL AND public.user_has_subject_access(subject_id));
+
+CREATE POLICY "Users can view notes of subjects they have access to"
+ON public.notes FOR SELECT
+USING (deleted_at IS NULL AND public.user_has_chapter_access(chapter_id));
+
+CREATE POLICY "Users can view videos of subjects they have access to"
+ON public.videos FOR SELECT
+USING (deleted_at IS NULL AND public.user_has_chapter_access(chapter_id));
+
+CREATE OR REPLACE FUNCTION public.list_subject_catalog()
+RETURNS TABLE (id uuid, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT id, name FROM public.subjects WHERE deleted_at IS NULL ORDER BY name;
+$function$;
+
+-- Move an item and everything under it to the trash. Children share the
+-- parent's deleted_at so a restore brings back exactly what was deleted with it.
+CREATE OR REPLACE FUNCTION public.soft_delete_content(p_table text, p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_now timestamp with time zone := now();
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can delete content';
+  END IF;
+
+  CASE p_table
+    WHEN 'subjects' THEN
+      UPDATE public.subjects SET deleted_at = v_now WHERE id = p_id AND deleted_at IS NULL;
+      UPDATE public.chapters SET deleted_at = v_now WHERE subject_id = p_id AND deleted_at IS NULL;
+      UPDATE public.notes SET deleted_at = v_now
+      WHERE deleted_at IS NULL AND chapter_id IN (SELECT id FROM public.chapters WHERE subject_id = p_id);
+      UPDATE public.videos SET deleted_at = v_now
+      WHERE deleted_at IS NULL AND chapter_id IN (SELECT id FROM public.chapters WHERE subject_id = p_id);
+    WHEN 'chapters' THEN
+      UPDATE public.chapters SET deleted_at = v_now WHERE id = p_id AND deleted_at IS NULL;
+      UPDATE public.notes SET deleted_at = v_now WHERE chapter_id = p_id AND deleted_at IS NULL;
+      UPDATE public.videos SET deleted_at = v_now WHERE chapter_id = p_id AND deleted_at IS NULL;
+    WHEN 'notes' THEN
+      UPDATE public.notes SET deleted_at = v_now WHERE id = p_id AND deleted_at IS NULL;
+    WHEN 'videos' THEN
+      UPDATE public.videos SET deleted_at = v_now WHERE id = p_id AND deleted_at IS NULL;
+    ELSE
+      RAISE EXCEPTION 'Cannot delete %', p_table;
+  END CASE;
+END;
+$function$;
+
+-- Restore an item, the children deleted along with it, and any deleted parents
+CREATE OR REPLACE FUNCTION public.restore_content(p_table text, p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_deleted_at timestamp with time zone;
+  v_chapter_id uuid;
+  v_subject_id uuid;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can restore content';
+  END IF;
+
+  CASE p_table
+    WHEN 'subjects' THEN
+      SELECT deleted_at INTO v_deleted_at FROM public.subjects WHERE id = p_id;
+      v_subject_id := p_id;
+      UPDATE public.notes SET deleted_at = NULL
+      WHERE deleted_at = v_deleted_at AND chapter_id IN (SELECT id FROM public.chapters WHERE subject_id = p_id);
+      UPDATE public.videos SET deleted_at = NULL
+      WHERE deleted_at = v_deleted_at AND chapter_id IN (SELECT id FROM public.chapters WHERE subject_id = p_id);
+      UPDATE public.chapters SET deleted_at = NULL WHERE subject_id = p_id AND deleted_at = v_deleted_at;
+    WHEN 'chapters' THEN
+      SELECT deleted_at, subject_id INTO v_deleted_at, v_subject_id FROM public.chapters WHERE id = p_id;
+      UPDATE public.notes SET deleted_at = NULL WHERE chapter_id = p_id AND deleted_at = v_deleted_at;
+      UPDATE public.videos SET deleted_at = NULL WHERE chapter_id = p_id AND deleted_at = v_deleted_at;
+      UPDATE public.chapters SET deleted_at = NULL WHERE id = p_id;
+    WHEN 'notes' THEN
+      UPDATE public.notes SET deleted_at = NULL WHERE id = p_id RETURNING chapter_id INTO v_chapter_id;
+    WHEN 'videos' THEN
+      UPDATE public.videos SET deleted_at = NULL WHERE id = p_id RETURNING chapter_id INTO v_chapter_id;
+    ELSE
+      RAISE EXCEPTION 'Cannot restore %', p_table;
+  END CASE;
+
+  IF v_chapter_id IS NOT NULL THEN
+    UPDATE public.chapters SET deleted_at = NULL WHERE id = v_chapter_id AND deleted_at IS NOT NULL
+    RETURNING subject_id INTO v_subject_id;
+  END IF;
+
+  UPDATE public.subjects SET deleted_at = NULL WHERE id = v_subject_id AND deleted_at IS NOT NULL;
+END;
+$function$;
+
+-- Permanently delete an item that is already in the trash
+CREATE OR REPLACE FUNCTION public.purge_content(p_table text, p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can purge content';
+  END IF;
+
+  IF p_table NOT IN ('subjects', 'chapters', 'notes', 'videos') THEN
+    RAISE EXCEPTION 'Cannot purge %', p_table;
+  END IF;
+
+  EXECUTE format('DELETE FROM public.%I WHERE id = $1 AND deleted_at IS NOT NULL', p_table)
+  USING p_id;
+END;
+$function$;
+
+-- Empties the trash of anything deleted more than 30 days ago
+CREATE OR REPLACE FUNCTION public.purge_deleted_content()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_cutoff timestamp with time zone := now() - interval '30 days';
+BEGIN
+  DELETE FROM public.subjects WHERE deleted_at < v_cutoff;
+  DELETE FROM public.chapters WHERE deleted_at < v_cutoff;
+  DELETE FROM public.notes WHERE deleted_at < v_cutoff;
+  DELETE FROM public.videos WHERE deleted_at < v_cutoff;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_content() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-deleted-content',
+  '0 3 * * *',
+  $$SELECT public.purge_deleted_content()$$
+);
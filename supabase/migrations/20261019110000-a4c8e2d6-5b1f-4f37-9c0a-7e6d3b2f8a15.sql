@@ -0,0 +1,120 @@
+-- Storage objects waiting to be removed by the storage-cleanup edge function.
+-- Storage objects cannot be deleted from SQL, so triggers only enqueue them.
+CREATE TABLE public.storage_deletions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bucket_id TEXT NOT NULL,
+  object_name TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (bucket_id, object_name)
+);
+
+ALTER TABLE public.storage_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view storage deletions"
+ON public.storage_deletions FOR SELECT
+USING (public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.enqueue_note_pdf_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.storage_deletions (bucket_id, object_name)
+  VALUES ('pdfs', OLD.pdf_path)
+  ON CONFLICT (bucket_id, object_name) DO NOTHING;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- Fires for direct deletes, purges and ON DELETE CASCADE from chapters and subjects
+CREATE TRIGGER enqueue_deleted_note_pdf
+AFTER DELETE ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_note_pdf_deletion();
+
+-- Replacing a note's PDF leaves the previous file behind
+CREATE TRIGGER enqueue_replaced_note_pdf
+AFTER UPDATE OF pdf_path ON public.notes
+FOR EACH ROW
+WHEN (OLD.pdf_path IS DISTINCT FROM NEW.pdf_path)
+EXECUTE FUNCTION public.enqueue_note_pdf_deletion();
+
+-- Every object in the pdfs bucket with its size and the note using it, if any
+CREATE OR REPLACE FUNCTION public.storage_report()
+RETURNS TABLE (
+  object_name text,
+  size bigint,
+  created_at timestamp with time zone,
+  note_id uuid,
+  note_title text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the storage report';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.name, coalesce((o.metadata ->> 'size')::bigint, 0), o.created_at, n.id, n.title
+  FROM storage.objects o
+  LEFT JOIN public.notes n ON n.pdf_path = o.name
+  WHERE o.bucket_id = 'pdfs'
+  ORDER BY coalesce((o.metadata ->> 'size')::bigint, 0) DESC;
+END;
+$function$;
+
+-- Queue unreferenced PDFs for removal. Objects younger than an hour are skipped
+-- because an upload is stored before its note row is inserted.
+CREATE OR REPLACE FUNCTION public.enqueue_storage_orphans()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can clean up storage';
+  END IF;
+
+  INSERT INTO public.storage_deletions (bucket_id, object_name)
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'pdfs'
+    AND o.created_at < now() - interval '1 hour'
+    AND NOT EXISTS (SELECT 1 FROM public.notes n WHERE n.pdf_path = o.name)
+  ON CONFLICT (bucket_id, object_name) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$function$;
+
+-- Drain the queue every five minutes. Expects the project_url and
+-- service_role_key secrets in Supabase Vault.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'storage-cleanup',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/storage-cleanup',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (SELECT 1 FROM public.storage_deletions)
+  $$
+);
@@ -0,0 +1,153 @@
+-- Course import: upsert a subject -> chapter -> video/note tree in one transaction.
+-- Rows are matched case-insensitively by name or title within their parent, the
+-- same way the admin preview does; trashed rows never match and are left alone.
+CREATE OR REPLACE FUNCTION public.import_course(p_course jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject jsonb;
+  v_chapter jsonb;
+  v_item jsonb;
+  v_subject_id uuid;
+  v_chapter_id uuid;
+  v_id uuid;
+  v_created integer := 0;
+  v_updated integer := 0;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can import courses';
+  END IF;
+
+  IF jsonb_typeof(p_course -> 'subjects') IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Expected a subjects array';
+  END IF;
+
+  FOR v_subject IN SELECT * FROM jsonb_array_elements(p_course -> 'subjects') LOOP
+    IF coalesce(trim(v_subject ->> 'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every subject needs a name';
+    END IF;
+
+    SELECT id INTO v_subject_id
+    FROM subjects
+    WHERE lower(name) = lower(trim(v_subject ->> 'name')) AND deleted_at IS NULL
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_subject_id IS NULL THEN
+      INSERT INTO subjects (name, description, image_url)
+      VALUES (trim(v_subject ->> 'name'), v_subject ->> 'description', v_subject ->> 'image_url')
+      RETURNING id INTO v_subject_id;
+      v_created := v_created + 1;
+    ELSE
+      UPDATE subjects
+      SET description = coalesce(v_subject ->> 'description', description),
+          image_url = coalesce(v_subject ->> 'image_url', image_url)
+      WHERE id = v_subject_id
+        AND (description IS DISTINCT FROM coalesce(v_subject ->> 'description', description)
+          OR image_url IS DISTINCT FROM coalesce(v_subject ->> 'image_url', image_url));
+      IF FOUND THEN
+        v_updated := v_updated + 1;
+      END IF;
+    END IF;
+
+    FOR v_chapter IN SELECT * FROM jsonb_array_elements(coalesce(v_subject -> 'chapters', '[]'::jsonb)) LOOP
+      IF coalesce(trim(v_chapter ->> 'title'), '') = '' THEN
+        RAISE EXCEPTION 'Every chapter in % needs a title', v_subject ->> 'name';
+      END IF;
+
+      SELECT id INTO v_chapter_id
+      FROM chapters
+      WHERE subject_id = v_subject_id
+        AND lower(title) = lower(trim(v_chapter ->> 'title'))
+        AND deleted_at IS NULL
+      ORDER BY position
+      LIMIT 1;
+
+      IF v_chapter_id IS NULL THEN
+        INSERT INTO chapters (subject_id, title, description)
+        VALUES (v_subject_id, trim(v_chapter ->> 'title'), v_chapter ->> 'description')
+        RETURNING id INTO v_chapter_id;
+        v_created := v_created + 1;
+      ELSE
+        UPDATE chapters
+        SET description = coalesce(v_chapter ->> 'description', description)
+        WHERE id = v_chapter_id
+          AND description IS DISTINCT FROM coalesce(v_chapter ->> 'description', description);
+        IF FOUND THEN
+          v_updated := v_updated + 1;
+        END IF;
+      END IF;
+
+      FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(v_chapter -> 'videos', '[]'::jsonb)) LOOP
+        IF coalesce(trim(v_item ->> 'title'), '') = '' THEN
+          RAISE EXCEPTION 'Every video in % needs a title', v_chapter ->> 'title';
+        END IF;
+
+        IF coalesce(v_item ->> 'youtube_url', '') !~ '(youtube\.com/watch\?v=|youtu\.be/)[^&?#]+' THEN
+          RAISE EXCEPTION 'Video % does not have a YouTube URL', v_item ->> 'title';
+        END IF;
+
+        SELECT id INTO v_id
+        FROM videos
+        WHERE chapter_id = v_chapter_id
+          AND lower(title) = lower(trim(v_item ->> 'title'))
+          AND deleted_at IS NULL
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_id IS NULL THEN
+          INSERT INTO videos (chapter_id, title, youtube_url)
+          VALUES (v_chapter_id, trim(v_item ->> 'title'), v_item ->> 'youtube_url');
+          v_created := v_created + 1;
+        ELSE
+          UPDATE videos
+          SET youtube_url = v_item ->> 'youtube_url'
+          WHERE id = v_id AND youtube_url IS DISTINCT FROM v_item ->> 'youtube_url';
+          IF FOUND THEN
+            v_updated := v_updated + 1;
+          END IF;
+        END IF;
+      END LOOP;
+
+      FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(v_chapter -> 'notes', '[]'::jsonb)) LOOP
+        IF coalesce(trim(v_item ->> 'title'), '') = '' THEN
+          RAISE EXCEPTION 'Every note in % needs a title', v_chapter ->> 'title';
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM storage.objects
+          WHERE bucket_id = 'pdfs' AND name = v_item ->> 'pdf_path'
+        ) THEN
+          RAISE EXCEPTION 'PDF % was not found in storage', v_item ->> 'pdf_path';
+        END IF;
+
+        SELECT id INTO v_id
+        FROM notes
+        WHERE chapter_id = v_chapter_id
+          AND lower(title) = lower(trim(v_item ->> 'title'))
+          AND deleted_at IS NULL
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_id IS NULL THEN
+          INSERT INTO notes (chapter_id, title, pdf_path)
+          VALUES (v_chapter_id, trim(v_item ->> 'title'), v_item ->> 'pdf_path');
+          v_created := v_created + 1;
+        ELSE
+          UPDATE notes
+          SET pdf_path = v_item ->> 'pdf_path'
+          WHERE id = v_id AND pdf_path IS DISTINCT FROM v_item ->> 'pdf_path';
+          IF FOUND THEN
+            v_updated := v_updated + 1;
+          END IF;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$function$;
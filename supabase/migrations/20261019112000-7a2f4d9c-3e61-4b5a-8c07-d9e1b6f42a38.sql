@@ -0,0 +1,61 @@
+-- Restore a subject from an exported archive. Unlike import_course nothing is
+-- matched: every row is new, ordered by its position in the payload arrays.
+-- PDFs are uploaded by the client first and referenced by their new paths.
+CREATE OR REPLACE FUNCTION public.restore_course(p_subject jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject_id uuid;
+  v_chapter_id uuid;
+  v_chapter jsonb;
+  v_chapter_position bigint;
+  v_item jsonb;
+  v_item_position bigint;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can restore courses';
+  END IF;
+
+  IF coalesce(trim(p_subject ->> 'name'), '') = '' THEN
+    RAISE EXCEPTION 'The subject needs a name';
+  END IF;
+
+  INSERT INTO subjects (name, description, image_url)
+  VALUES (trim(p_subject ->> 'name'), p_subject ->> 'description', p_subject ->> 'image_url')
+  RETURNING id INTO v_subject_id;
+
+  FOR v_chapter, v_chapter_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(coalesce(p_subject -> 'chapters', '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    INSERT INTO chapters (subject_id, title, description, position)
+    VALUES (v_subject_id, v_chapter ->> 'title', v_chapter ->> 'description', v_chapter_position)
+    RETURNING id INTO v_chapter_id;
+
+    FOR v_item, v_item_position IN
+      SELECT value, ordinality FROM jsonb_array_elements(coalesce(v_chapter -> 'notes', '[]'::jsonb)) WITH ORDINALITY
+    LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM storage.objects
+        WHERE bucket_id = 'pdfs' AND name = v_item ->> 'pdf_path'
+      ) THEN
+        RAISE EXCEPTION 'PDF % was not found in storage', v_item ->> 'pdf_path';
+      END IF;
+
+      INSERT INTO notes (chapter_id, title, pdf_path, position)
+      VALUES (v_chapter_id, v_item ->> 'title', v_item ->> 'pdf_path', v_item_position);
+    END LOOP;
+
+    FOR v_item, v_item_position IN
+      SELECT value, ordinality FROM jsonb_array_elements(coalesce(v_chapter -> 'videos', '[]'::jsonb)) WITH ORDINALITY
+    LOOP
+      INSERT INTO videos (chapter_id, title, youtube_url, position)
+      VALUES (v_chapter_id, v_item ->> 'title', v_item ->> 'youtube_url', v_item_position);
+    END LOOP;
+  END LOOP;
+
+  RETURN v_subject_id;
+END;
+$function$;
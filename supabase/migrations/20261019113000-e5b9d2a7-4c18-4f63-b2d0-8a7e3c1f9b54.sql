@@ -0,0 +1,203 @@
+-- Publication status. Draft subjects are only visible to content managers;
+-- scheduled ones become visible once publish_at has passed, with nothing
+-- having to run at that moment.
+CREATE TYPE public.content_status AS ENUM ('draft', 'scheduled', 'published');
+
+-- Existing subjects stay visible
+ALTER TABLE public.subjects
+  ADD COLUMN status public.content_status NOT NULL DEFAULT 'published',
+  ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.subjects ADD CONSTRAINT subjects_scheduled_publish_at
+  CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.is_released(p_status public.content_status, p_publish_at timestamp with time zone)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT p_status = 'published' OR (p_status = 'scheduled' AND p_publish_at <= now());
+$function$;
+
+CREATE OR REPLACE FUNCTION public.user_has_subject_access(p_subject_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.subjects
+    WHERE id = p_subject_id
+      AND deleted_at IS NULL
+      AND (public.is_released(status, publish_at) OR public.can_manage_content())
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.user_has_access(auth.jwt() ->> 'email') OR EXISTS (
+    SELECT 1 FROM public.subject_access sa
+    JOIN public.users u ON u.id = sa.user_id
+    WHERE u.email = (auth.jwt() ->> 'email')
+      AND sa.subject_id = p_subject_id
+      AND (sa.starts_at IS NULL OR sa.starts_at <= now())
+      AND (sa.ends_at IS NULL OR sa.ends_at > now())
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.list_subject_catalog()
+RETURNS TABLE (id uuid, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT id, name FROM public.subjects
+  WHERE deleted_at IS NULL AND public.is_released(status, publish_at)
+  ORDER BY name;
+$function$;
+
+-- Deep-copy a subject as a draft. p_pdf_paths maps note ids to
+-- copies the client already made in storage; notes missing from it share the
+-- original's PDF.
+CREATE OR REPLACE FUNCTION public.duplicate_subject(
+  p_subject_id uuid,
+  p_name text,
+  p_pdf_paths jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject_id uuid;
+  v_chapter record;
+  v_chapter_id uuid;
+  v_note record;
+  v_pdf_path text;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can duplicate subjects';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'The duplicate needs a name';
+  END IF;
+
+  INSERT INTO subjects (name, description, image_url, status)
+  SELECT trim(p_name), description, image_url, 'draft'
+  FROM subjects
+  WHERE id = p_subject_id AND deleted_at IS NULL
+  RETURNING id INTO v_subject_id;
+
+  IF v_subject_id IS NULL THEN
+    RAISE EXCEPTION 'Subject % not found', p_subject_id;
+  END IF;
+
+  FOR v_chapter IN
+    SELECT * FROM chapters WHERE subject_id = p_subject_id AND deleted_at IS NULL ORDER BY position
+  LOOP
+    INSERT INTO chapters (subject_id, title, description, position)
+    VALUES (v_subject_id, v_chapter.title, v_chapter.description, v_chapter.position)
+    RETURNING id INTO v_chapter_id;
+
+    FOR v_note IN
+      SELECT * FROM notes WHERE chapter_id = v_chapter.id AND deleted_at IS NULL ORDER BY position
+    LOOP
+      v_pdf_path := coalesce(p_pdf_paths ->> v_note.id::text, v_note.pdf_path);
+
+      IF v_pdf_path <> v_note.pdf_path AND NOT EXISTS (
+        SELECT 1 FROM storage.objects WHERE bucket_id = 'pdfs' AND name = v_pdf_path
+      ) THEN
+        RAISE EXCEPTION 'PDF % was not found in storage', v_pdf_path;
+      END IF;
+
+      INSERT INTO notes (chapter_id, title, pdf_path, position)
+      VALUES (v_chapter_id, v_note.title, v_pdf_path, v_note.position);
+    END LOOP;
+
+    INSERT INTO videos (chapter_id, title, youtube_url, position)
+    SELECT v_chapter_id, title, youtube_url, position
+    FROM videos
+    WHERE chapter_id = v_chapter.id AND deleted_at IS NULL;
+  END LOOP;
+
+  RETURN v_subject_id;
+END;
+$function$;
+
+-- Duplicates may share one PDF between several notes, so a file is only queued
+-- for removal once no note (trashed or not) references it any more
+CREATE OR REPLACE FUNCTION public.enqueue_note_pdf_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.notes WHERE pdf_path = OLD.pdf_path) THEN
+    INSERT INTO public.storage_deletions (bucket_id, object_name)
+    VALUES ('pdfs', OLD.pdf_path)
+    ON CONFLICT (bucket_id, object_name) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- A note pointing at a queued file takes it back off the queue
+CREATE OR REPLACE FUNCTION public.cancel_note_pdf_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  DELETE FROM public.storage_deletions
+  WHERE bucket_id = 'pdfs' AND object_name = NEW.pdf_path;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER cancel_note_pdf_deletion
+AFTER INSERT OR UPDATE OF pdf_path ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.cancel_note_pdf_deletion();
+
+-- One row per object even when several notes share it
+CREATE OR REPLACE FUNCTION public.storage_report()
+RETURNS TABLE (
+  object_name text,
+  size bigint,
+  created_at timestamp with time zone,
+  note_id uuid,
+  note_title text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the storage report';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.name, coalesce((o.metadata ->> 'size')::bigint, 0), o.created_at, n.id, n.title
+  FROM storage.objects o
+  LEFT JOIN LATERAL (
+    SELECT notes.id, notes.title
+    FROM public.notes
+    WHERE notes.pdf_path = o.name
+    ORDER BY notes.created_at
+    LIMIT 1
+  ) n ON true
+  WHERE o.bucket_id = 'pdfs'
+  ORDER BY coalesce((o.metadata ->> 'size')::bigint, 0) DESC;
+END;
+$function$;
@@ -0,0 +1,146 @@
+-- Release workflow for all content, on the publication status subjects
+-- already have. Scheduled rows become visible to learners once publish_at has
+-- passed; nothing has to run at that moment.
+
+-- Existing content stays visible; anything created from now on starts as a draft
+ALTER TABLE public.chapters
+  ADD COLUMN status public.content_status NOT NULL DEFAULT 'published',
+  ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.notes
+  ADD COLUMN status public.content_status NOT NULL DEFAULT 'published',
+  ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.videos
+  ADD COLUMN status public.content_status NOT NULL DEFAULT 'published',
+  ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.subjects ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE public.chapters ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE public.notes ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE public.videos ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE public.chapters ADD CONSTRAINT chapters_scheduled_publish_at
+  CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+ALTER TABLE public.notes ADD CONSTRAINT notes_scheduled_publish_at
+  CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+ALTER TABLE public.videos ADD CONSTRAINT videos_scheduled_publish_at
+  CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+-- Content managers keep seeing unreleased content; learners only what is out
+CREATE OR REPLACE FUNCTION public.user_has_chapter_access(p_chapter_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN public.user_has_subject_access(
+    (SELECT subject_id FROM public.chapters
+     WHERE id = p_chapter_id
+       AND deleted_at IS NULL
+       AND (public.is_released(status, publish_at) OR public.can_manage_content()))
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.user_has_pdf_access(p_object_name text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.notes n
+    WHERE n.pdf_path = p_object_name
+      AND n.deleted_at IS NULL
+      AND public.is_released(n.status, n.publish_at)
+      AND public.user_has_chapter_access(n.chapter_id)
+  );
+END;
+$function$;
+
+DROP POLICY IF EXISTS "Users can view chapters of subjects they have access to" ON public.chapters;
+DROP POLICY IF EXISTS "Users can view notes of subjects they have access to" ON public.notes;
+DROP POLICY IF EXISTS "Users can view videos of subjects they have access to" ON public.videos;
+
+CREATE POLICY "Users can view chapters of subjects they have access to"
+ON public.chapters FOR SELECT
+USING (deleted_at IS NULL AND public.is_released(status, publish_at) AND public.user_has_subject_access(subject_id));
+
+CREATE POLICY "Users can view notes of subjects they have access to"
+ON public.notes FOR SELECT
+USING (deleted_at IS NULL AND public.is_released(status, publish_at) AND public.user_has_chapter_access(chapter_id));
+
+CREATE POLICY "Users can view videos of subjects they have access to"
+ON public.videos FOR SELECT
+USING (deleted_at IS NULL AND public.is_released(status, publish_at) AND public.user_has_chapter_access(chapter_id));
+
+-- Copies keep the release status of each chapter, note and video
+CREATE OR REPLACE FUNCTION public.duplicate_subject(
+  p_subject_id uuid,
+  p_name text,
+  p_pdf_paths jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject_id uuid;
+  v_chapter record;
+  v_chapter_id uuid;
+  v_note record;
+  v_pdf_path text;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can duplicate subjects';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'The duplicate needs a name';
+  END IF;
+
+  INSERT INTO subjects (name, description, image_url, status)
+  SELECT trim(p_name), description, image_url, 'draft'
+  FROM subjects
+  WHERE id = p_subject_id AND deleted_at IS NULL
+  RETURNING id INTO v_subject_id;
+
+  IF v_subject_id IS NULL THEN
+    RAISE EXCEPTION 'Subject % not found', p_subject_id;
+  END IF;
+
+  FOR v_chapter IN
+    SELECT * FROM chapters WHERE subject_id = p_subject_id AND deleted_at IS NULL ORDER BY position
+  LOOP
+    INSERT INTO chapters (subject_id, title, description, position, status, publish_at)
+    VALUES (v_subject_id, v_chapter.title, v_chapter.description, v_chapter.position, v_chapter.status, v_chapter.publish_at)
+    RETURNING id INTO v_chapter_id;
+
+    FOR v_note IN
+      SELECT * FROM notes WHERE chapter_id = v_chapter.id AND deleted_at IS NULL ORDER BY position
+    LOOP
+      v_pdf_path := coalesce(p_pdf_paths ->> v_note.id::text, v_note.pdf_path);
+
+      IF v_pdf_path <> v_note.pdf_path AND NOT EXISTS (
+        SELECT 1 FROM storage.objects WHERE bucket_id = 'pdfs' AND name = v_pdf_path
+      ) THEN
+        RAISE EXCEPTION 'PDF % was not found in storage', v_pdf_path;
+      END IF;
+
+      INSERT INTO notes (chapter_id, title, pdf_path, position, status, publish_at)
+      VALUES (v_chapter_id, v_note.title, v_pdf_path, v_note.position, v_note.status, v_note.publish_at);
+    END LOOP;
+
+    INSERT INTO videos (chapter_id, title, youtube_url, position, status, publish_at)
+    SELECT v_chapter_id, title, youtube_url, position, status, publish_at
+    FROM videos
+    WHERE chapter_id = v_chapter.id AND deleted_at IS NULL;
+  END LOOP;
+
+  RETURN v_subject_id;
+END;
+$function$;
@@ -0,0 +1,121 @@
+-- Full-text search over course content. Names and titles weigh more than descriptions.
+ALTER TABLE public.subjects ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+ALTER TABLE public.chapters ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+ALTER TABLE public.notes ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A')
+) STORED;
+
+ALTER TABLE public.videos ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A')
+) STORED;
+
+CREATE INDEX idx_subjects_search ON public.subjects USING GIN (search_vector);
+CREATE INDEX idx_chapters_search ON public.chapters USING GIN (search_vector);
+CREATE INDEX idx_notes_search ON public.notes USING GIN (search_vector);
+CREATE INDEX idx_videos_search ON public.videos USING GIN (search_vector);
+
+-- Runs as the caller so RLS decides what each user can find. Every word is
+-- matched as a prefix, so results show up while the user is still typing.
+CREATE OR REPLACE FUNCTION public.search_content(p_query text, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  title text,
+  subject_id uuid,
+  subject_name text,
+  chapter_id uuid,
+  chapter_title text,
+  released boolean,
+  rank real
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_query tsquery;
+BEGIN
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO v_query
+  FROM regexp_split_to_table(regexp_replace(lower(coalesce(p_query, '')), '[^[:alnum:]]+', ' ', 'g'), ' ') AS word
+  WHERE word <> '';
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT r.kind, r.id, r.title, r.subject_id, r.subject_name, r.chapter_id, r.chapter_title, r.released, r.rank
+  FROM (
+    SELECT 'subject'::text AS kind, s.id, s.name AS title, s.id AS subject_id, s.name AS subject_name,
+      NULL::uuid AS chapter_id, NULL::text AS chapter_title,
+      is_released(s.status, s.publish_at) AS released,
+      ts_rank(s.search_vector, v_query) AS rank
+    FROM subjects s
+    WHERE s.search_vector @@ v_query AND s.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'chapter', c.id, c.title, s.id, s.name, c.id, c.title,
+      is_released(s.status, s.publish_at) AND is_released(c.status, c.publish_at),
+      ts_rank(c.search_vector, v_query)
+    FROM chapters c
+    JOIN subjects s ON s.id = c.subject_id AND s.deleted_at IS NULL
+    WHERE c.search_vector @@ v_query AND c.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'note', n.id, n.title, s.id, s.name, c.id, c.title,
+      is_released(s.status, s.publish_at) AND is_released(c.status, c.publish_at) AND is_released(n.status, n.publish_at),
+      ts_rank(n.search_vector, v_query)
+    FROM notes n
+    JOIN chapters c ON c.id = n.chapter_id AND c.deleted_at IS NULL
+    JOIN subjects s ON s.id = c.subject_id AND s.deleted_at IS NULL
+    WHERE n.search_vector @@ v_query AND n.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'video', v.id, v.title, s.id, s.name, c.id, c.title,
+      is_released(s.status, s.publish_at) AND is_released(c.status, c.publish_at) AND is_released(v.status, v.publish_at),
+      ts_rank(v.search_vector, v_query)
+    FROM videos v
+    JOIN chapters c ON c.id = v.chapter_id AND c.deleted_at IS NULL
+    JOIN subjects s ON s.id = c.subject_id AND s.deleted_at IS NULL
+    WHERE v.search_vector @@ v_query AND v.deleted_at IS NULL
+  ) r
+  ORDER BY r.rank DESC, r.title
+  LIMIT least(greatest(coalesce(p_limit, 20), 1), 100);
+END;
+$function$;
+
+-- Search vectors are derived data; keep them out of audit snapshots
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Changes made without a signed-in user (e.g. sign-up) have no actor
+  INSERT INTO public.audit_log (actor_id, actor_email, action, entity, entity_id, before, after)
+  VALUES (
+    public.current_user_id(),
+    auth.jwt() ->> 'email',
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) - 'search_vector' END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) - 'search_vector' END
+  );
+
+  RETURN NULL;
+END;
+$function$;
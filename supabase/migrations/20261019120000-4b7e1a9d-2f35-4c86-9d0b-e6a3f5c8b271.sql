@@ -0,0 +1,204 @@
+-- Text extracted from note PDFs, one row per page, filled by the extract-pdf-text edge function
+CREATE TABLE public.note_pages (
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  PRIMARY KEY (note_id, page_number)
+);
+
+CREATE INDEX idx_note_pages_search ON public.note_pages USING GIN (search_vector);
+
+ALTER TABLE public.note_pages ENABLE ROW LEVEL SECURITY;
+
+-- Readable whenever the note itself is
+CREATE POLICY "Users can view pages of notes they can view"
+ON public.note_pages FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_pages.note_id));
+
+-- Which PDF each note's pages were extracted from. A note needs (re-)indexing
+-- when it has no row here or its pdf_path has changed since.
+CREATE TABLE public.note_text_extractions (
+  note_id UUID NOT NULL PRIMARY KEY REFERENCES public.notes(id) ON DELETE CASCADE,
+  pdf_path TEXT NOT NULL,
+  page_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  -- Tries on this pdf_path; starts over when the PDF is replaced
+  attempts INTEGER NOT NULL DEFAULT 1,
+  extracted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.note_text_extractions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Content managers can view text extractions"
+ON public.note_text_extractions FOR SELECT
+USING (public.can_manage_content());
+
+-- Used by the edge function. Failed extractions are retried after ten minutes,
+-- up to three attempts per PDF; replacing the PDF starts over.
+CREATE OR REPLACE FUNCTION public.pending_note_text_extractions(p_limit integer DEFAULT 10)
+RETURNS TABLE (id uuid, pdf_path text, attempts integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT n.id, n.pdf_path,
+    CASE WHEN e.pdf_path = n.pdf_path THEN e.attempts ELSE 0 END
+  FROM public.notes n
+  LEFT JOIN public.note_text_extractions e ON e.note_id = n.id
+  WHERE n.deleted_at IS NULL
+    AND (
+      e.pdf_path IS DISTINCT FROM n.pdf_path
+      OR (e.error IS NOT NULL AND e.attempts < 3 AND e.extracted_at < now() - interval '10 minutes')
+    )
+  ORDER BY n.created_at
+  LIMIT p_limit;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.pending_note_text_extractions(integer) FROM PUBLIC, anon, authenticated;
+
+-- Words become prefix matches so results appear while the user is still typing
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(p_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(regexp_replace(lower(coalesce(p_query, '')), '[^[:alnum:]]+', ' ', 'g'), ' ') AS word
+  WHERE word <> '';
+$function$;
+
+CREATE OR REPLACE FUNCTION public.search_content(p_query text, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  title text,
+  subject_id uuid,
+  subject_name text,
+  chapter_id uuid,
+  chapter_title text,
+  released boolean,
+  rank real
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_query tsquery := public.to_prefix_tsquery(p_query);
+BEGIN
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT r.kind, r.id, r.title, r.subject_id, r.subject_name, r.chapter_id, r.chapter_title, r.released, r.rank
+  FROM (
+    SELECT 'subject'::text AS kind, s.id, s.name AS title, s.id AS subject_id, s.name AS subject_name,
+      NULL::uuid AS chapter_id, NULL::text AS chapter_title,
+      is_released(s.status, s.publish_at) AS released,
+      ts_rank(s.search_vector, v_query) AS rank
+    FROM subjects s
+    WHERE s.search_vector @@ v_query AND s.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'chapter', c.id, c.title, s.id, s.name, c.id, c.title,
+      is_released(s.status, s.publish_at) AND is_released(c.status, c.publish_at),
+      ts_rank(c.search_vector, v_query)
+    FROM chapters c
+    JOIN subjects s ON s.id = c.subject_id AND s.deleted_at IS NULL
+    WHERE c.search_vector @@ v_query AND c.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'note', n.id, n.title, s.id, s.name, c.id, c.title,
+      is_released(s.status, s.publish_at) AND is_released(c.status, c.publish_at) AND is_released(n.status, n.publish_at),
+      ts_rank(n.search_vector, v_query)
+    FROM notes n
+    JOIN chapters c ON c.id = n.chapter_id AND c.deleted_at IS NULL
+    JOIN subjects s ON s.id = c.subject_id AND s.deleted_at IS NULL
+    WHERE n.search_vector @@ v_query AND n.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'video', v.id, v.title, s.id, s.name, c.id, c.title,
+      is_released(s.status, s.publish_at) AND is_released(c.status, c.publish_at) AND is_released(v.status, v.publish_at),
+      ts_rank(v.search_vector, v_query)
+    FROM videos v
+    JOIN chapters c ON c.id = v.chapter_id AND c.deleted_at IS NULL
+    JOIN subjects s ON s.id = c.subject_id AND s.deleted_at IS NULL
+    WHERE v.search_vector @@ v_query AND v.deleted_at IS NULL
+  ) r
+  ORDER BY r.rank DESC, r.title
+  LIMIT least(greatest(coalesce(p_limit, 20), 1), 100);
+END;
+$function$;
+
+-- Matching pages inside note PDFs, with a highlighted snippet. Runs as the
+-- caller so RLS decides which notes can be searched.
+CREATE OR REPLACE FUNCTION public.search_note_pages(p_query text, p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  note_id uuid,
+  note_title text,
+  page_number integer,
+  snippet text,
+  subject_id uuid,
+  subject_name text,
+  chapter_id uuid,
+  chapter_title text,
+  released boolean,
+  rank real
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_query tsquery := public.to_prefix_tsquery(p_query);
+BEGIN
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT m.note_id, m.note_title, m.page_number,
+    ts_headline('english', m.content, v_query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2'),
+    m.subject_id, m.subject_name, m.chapter_id, m.chapter_title, m.released, m.rank
+  FROM (
+    SELECT p.note_id, n.title AS note_title, p.page_number, p.content,
+      s.id AS subject_id, s.name AS subject_name, c.id AS chapter_id, c.title AS chapter_title,
+      is_released(s.status, s.publish_at) AND is_released(c.status, c.publish_at) AND is_released(n.status, n.publish_at) AS released,
+      ts_rank(p.search_vector, v_query) AS rank
+    FROM note_pages p
+    JOIN notes n ON n.id = p.note_id AND n.deleted_at IS NULL
+    JOIN chapters c ON c.id = n.chapter_id AND c.deleted_at IS NULL
+    JOIN subjects s ON s.id = c.subject_id AND s.deleted_at IS NULL
+    WHERE p.search_vector @@ v_query
+    ORDER BY ts_rank(p.search_vector, v_query) DESC, n.title, p.page_number
+    LIMIT least(greatest(coalesce(p_limit, 50), 1), 200)
+  ) m
+  ORDER BY m.rank DESC, m.note_title, m.page_number;
+END;
+$function$;
+
+-- Index new and replaced PDFs every five minutes; the first runs also backfill
+-- everything uploaded before this migration. Uses the same Vault secrets as storage-cleanup.
+SELECT cron.schedule(
+  'extract-pdf-text',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/extract-pdf-text',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  )
+  WHERE EXISTS (SELECT 1 FROM public.pending_note_text_extractions(1))
+  $$
+);
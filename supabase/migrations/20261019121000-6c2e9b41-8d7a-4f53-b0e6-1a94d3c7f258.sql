@@ -0,0 +1,4 @@
+-- Remember where a learner stopped in each video and how much of it they watched
+ALTER TABLE public.progress
+ADD COLUMN position_seconds INTEGER CHECK (position_seconds IS NULL OR position_seconds >= 0),
+ADD COLUMN watched_percent SMALLINT CHECK (watched_percent IS NULL OR watched_percent BETWEEN 0 AND 100);
@@ -0,0 +1,385 @@
+-- Videos can come from YouTube, Vimeo or an MP4 in our own storage. The app
+-- parses the link when it is saved and stores the provider and its video id
+-- next to the normalised URL.
+CREATE TYPE public.video_provider AS ENUM ('youtube', 'vimeo', 'storage');
+
+ALTER TABLE public.videos RENAME COLUMN youtube_url TO source_url;
+
+ALTER TABLE public.videos
+  ADD COLUMN provider public.video_provider,
+  ADD COLUMN provider_video_id TEXT;
+
+-- Older rows were saved without any checks. Whatever matches a known link shape
+-- is filled in; the rest keep a NULL provider until an admin fixes the link.
+UPDATE public.videos
+SET provider = 'youtube',
+    provider_video_id = substring(source_url FROM '(?:youtube(?:-nocookie)?\.com/(?:watch\?(?:[^#]*&)?v=|(?:shorts|embed|live|v|e)/)|youtu\.be/)([A-Za-z0-9_-]{11})')
+WHERE source_url ~ '(?:youtube(?:-nocookie)?\.com/(?:watch\?(?:[^#]*&)?v=|(?:shorts|embed|live|v|e)/)|youtu\.be/)[A-Za-z0-9_-]{11}';
+
+UPDATE public.videos
+SET provider = 'vimeo',
+    provider_video_id = substring(source_url FROM 'vimeo\.com/(?:video/|channels/[^/]+/|groups/[^/]+/videos/)?([0-9]+)')
+WHERE provider IS NULL
+  AND source_url ~ 'vimeo\.com/(?:video/|channels/[^/]+/|groups/[^/]+/videos/)?[0-9]+';
+
+ALTER TABLE public.videos ADD CONSTRAINT videos_provider_video_id
+  CHECK ((provider IS NULL) = (provider_video_id IS NULL));
+
+-- Self-hosted video files
+INSERT INTO storage.buckets (id, name, public) VALUES ('videos', 'videos', false);
+
+CREATE OR REPLACE FUNCTION public.user_has_video_file_access(p_object_name text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.videos v
+    WHERE v.provider = 'storage'
+      AND v.provider_video_id = p_object_name
+      AND v.deleted_at IS NULL
+      AND public.is_released(v.status, v.publish_at)
+      AND public.user_has_chapter_access(v.chapter_id)
+  );
+END;
+$function$;
+
+CREATE POLICY "Users with access can view video files"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'videos'
+  AND (public.user_has_video_file_access(name) OR public.can_manage_content())
+);
+
+CREATE POLICY "Content managers can upload video files"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'videos' AND public.can_manage_content());
+
+CREATE POLICY "Content managers can update video files"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'videos' AND public.can_manage_content());
+
+CREATE POLICY "Content managers can delete video files"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'videos' AND public.can_manage_content());
+
+-- The import takes the parsed video columns from the client, like the admin forms
+CREATE OR REPLACE FUNCTION public.import_course(p_course jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject jsonb;
+  v_chapter jsonb;
+  v_item jsonb;
+  v_subject_id uuid;
+  v_chapter_id uuid;
+  v_id uuid;
+  v_created integer := 0;
+  v_updated integer := 0;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can import courses';
+  END IF;
+
+  IF jsonb_typeof(p_course -> 'subjects') IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Expected a subjects array';
+  END IF;
+
+  FOR v_subject IN SELECT * FROM jsonb_array_elements(p_course -> 'subjects') LOOP
+    IF coalesce(trim(v_subject ->> 'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every subject needs a name';
+    END IF;
+
+    SELECT id INTO v_subject_id
+    FROM subjects
+    WHERE lower(name) = lower(trim(v_subject ->> 'name')) AND deleted_at IS NULL
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_subject_id IS NULL THEN
+      INSERT INTO subjects (name, description, image_url)
+      VALUES (trim(v_subject ->> 'name'), v_subject ->> 'description', v_subject ->> 'image_url')
+      RETURNING id INTO v_subject_id;
+      v_created := v_created + 1;
+    ELSE
+      UPDATE subjects
+      SET description = coalesce(v_subject ->> 'description', description),
+          image_url = coalesce(v_subject ->> 'image_url', image_url)
+      WHERE id = v_subject_id
+        AND (description IS DISTINCT FROM coalesce(v_subject ->> 'description', description)
+          OR image_url IS DISTINCT FROM coalesce(v_subject ->> 'image_url', image_url));
+      IF FOUND THEN
+        v_updated := v_updated + 1;
+      END IF;
+    END IF;
+
+    FOR v_chapter IN SELECT * FROM jsonb_array_elements(coalesce(v_subject -> 'chapters', '[]'::jsonb)) LOOP
+      IF coalesce(trim(v_chapter ->> 'title'), '') = '' THEN
+        RAISE EXCEPTION 'Every chapter in % needs a title', v_subject ->> 'name';
+      END IF;
+
+      SELECT id INTO v_chapter_id
+      FROM chapters
+      WHERE subject_id = v_subject_id
+        AND lower(title) = lower(trim(v_chapter ->> 'title'))
+        AND deleted_at IS NULL
+      ORDER BY position
+      LIMIT 1;
+
+      IF v_chapter_id IS NULL THEN
+        INSERT INTO chapters (subject_id, title, description)
+        VALUES (v_subject_id, trim(v_chapter ->> 'title'), v_chapter ->> 'description')
+        RETURNING id INTO v_chapter_id;
+        v_created := v_created + 1;
+      ELSE
+        UPDATE chapters
+        SET description = coalesce(v_chapter ->> 'description', description)
+        WHERE id = v_chapter_id
+          AND description IS DISTINCT FROM coalesce(v_chapter ->> 'description', description);
+        IF FOUND THEN
+          v_updated := v_updated + 1;
+        END IF;
+      END IF;
+
+      FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(v_chapter -> 'videos', '[]'::jsonb)) LOOP
+        IF coalesce(trim(v_item ->> 'title'), '') = '' THEN
+          RAISE EXCEPTION 'Every video in % needs a title', v_chapter ->> 'title';
+        END IF;
+
+        IF coalesce(v_item ->> 'provider', '') NOT IN ('youtube', 'vimeo', 'storage')
+          OR coalesce(v_item ->> 'provider_video_id', '') = '' THEN
+          RAISE EXCEPTION 'Video % does not have a supported video URL', v_item ->> 'title';
+        END IF;
+
+        IF v_item ->> 'provider' = 'storage' AND NOT EXISTS (
+          SELECT 1 FROM storage.objects
+          WHERE bucket_id = 'videos' AND name = v_item ->> 'provider_video_id'
+        ) THEN
+          RAISE EXCEPTION 'Video file % was not found in storage', v_item ->> 'provider_video_id';
+        END IF;
+
+        SELECT id INTO v_id
+        FROM videos
+        WHERE chapter_id = v_chapter_id
+          AND lower(title) = lower(trim(v_item ->> 'title'))
+          AND deleted_at IS NULL
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_id IS NULL THEN
+          INSERT INTO videos (chapter_id, title, source_url, provider, provider_video_id)
+          VALUES (
+            v_chapter_id,
+            trim(v_item ->> 'title'),
+            v_item ->> 'source_url',
+            (v_item ->> 'provider')::public.video_provider,
+            v_item ->> 'provider_video_id'
+          );
+          v_created := v_created + 1;
+        ELSE
+          UPDATE videos
+          SET source_url = v_item ->> 'source_url',
+              provider = (v_item ->> 'provider')::public.video_provider,
+              provider_video_id = v_item ->> 'provider_video_id'
+          WHERE id = v_id AND source_url IS DISTINCT FROM v_item ->> 'source_url';
+          IF FOUND THEN
+            v_updated := v_updated + 1;
+          END IF;
+        END IF;
+      END LOOP;
+
+      FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(v_chapter -> 'notes', '[]'::jsonb)) LOOP
+        IF coalesce(trim(v_item ->> 'title'), '') = '' THEN
+          RAISE EXCEPTION 'Every note in % needs a title', v_chapter ->> 'title';
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM storage.objects
+          WHERE bucket_id = 'pdfs' AND name = v_item ->> 'pdf_path'
+        ) THEN
+          RAISE EXCEPTION 'PDF % was not found in storage', v_item ->> 'pdf_path';
+        END IF;
+
+        SELECT id INTO v_id
+        FROM notes
+        WHERE chapter_id = v_chapter_id
+          AND lower(title) = lower(trim(v_item ->> 'title'))
+          AND deleted_at IS NULL
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_id IS NULL THEN
+          INSERT INTO notes (chapter_id, title, pdf_path)
+          VALUES (v_chapter_id, trim(v_item ->> 'title'), v_item ->> 'pdf_path');
+          v_created := v_created + 1;
+        ELSE
+          UPDATE notes
+          SET pdf_path = v_item ->> 'pdf_path'
+          WHERE id = v_id AND pdf_path IS DISTINCT FROM v_item ->> 'pdf_path';
+          IF FOUND THEN
+            v_updated := v_updated + 1;
+          END IF;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$function$;
+
+-- Archives restore the parsed video columns as well, and uploaded files must
+-- still be in storage
+CREATE OR REPLACE FUNCTION public.restore_course(p_subject jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject_id uuid;
+  v_chapter_id uuid;
+  v_chapter jsonb;
+  v_chapter_position bigint;
+  v_item jsonb;
+  v_item_position bigint;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can restore courses';
+  END IF;
+
+  IF coalesce(trim(p_subject ->> 'name'), '') = '' THEN
+    RAISE EXCEPTION 'The subject needs a name';
+  END IF;
+
+  INSERT INTO subjects (name, description, image_url)
+  VALUES (trim(p_subject ->> 'name'), p_subject ->> 'description', p_subject ->> 'image_url')
+  RETURNING id INTO v_subject_id;
+
+  FOR v_chapter, v_chapter_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(coalesce(p_subject -> 'chapters', '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    INSERT INTO chapters (subject_id, title, description, position)
+    VALUES (v_subject_id, v_chapter ->> 'title', v_chapter ->> 'description', v_chapter_position)
+    RETURNING id INTO v_chapter_id;
+
+    FOR v_item, v_item_position IN
+      SELECT value, ordinality FROM jsonb_array_elements(coalesce(v_chapter -> 'notes', '[]'::jsonb)) WITH ORDINALITY
+    LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM storage.objects
+        WHERE bucket_id = 'pdfs' AND name = v_item ->> 'pdf_path'
+      ) THEN
+        RAISE EXCEPTION 'PDF % was not found in storage', v_item ->> 'pdf_path';
+      END IF;
+
+      INSERT INTO notes (chapter_id, title, pdf_path, position)
+      VALUES (v_chapter_id, v_item ->> 'title', v_item ->> 'pdf_path', v_item_position);
+    END LOOP;
+
+    FOR v_item, v_item_position IN
+      SELECT value, ordinality FROM jsonb_array_elements(coalesce(v_chapter -> 'videos', '[]'::jsonb)) WITH ORDINALITY
+    LOOP
+      IF coalesce(v_item ->> 'provider', '') NOT IN ('youtube', 'vimeo', 'storage')
+        OR coalesce(v_item ->> 'provider_video_id', '') = '' THEN
+        RAISE EXCEPTION 'Video % does not have a supported video URL', v_item ->> 'title';
+      END IF;
+
+      -- Archives only carry the path of uploaded files, so the file must still be here
+      IF v_item ->> 'provider' = 'storage' AND NOT EXISTS (
+        SELECT 1 FROM storage.objects
+        WHERE bucket_id = 'videos' AND name = v_item ->> 'provider_video_id'
+      ) THEN
+        RAISE EXCEPTION 'Video file % for "%" was not found in storage; upload it again before restoring',
+          v_item ->> 'provider_video_id', v_item ->> 'title';
+      END IF;
+
+      INSERT INTO videos (chapter_id, title, source_url, provider, provider_video_id, position)
+      VALUES (
+        v_chapter_id,
+        v_item ->> 'title',
+        v_item ->> 'source_url',
+        (v_item ->> 'provider')::public.video_provider,
+        v_item ->> 'provider_video_id',
+        v_item_position
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN v_subject_id;
+END;
+$function$;
+
+-- Copies carry the provider columns along
+CREATE OR REPLACE FUNCTION public.duplicate_subject(
+  p_subject_id uuid,
+  p_name text,
+  p_pdf_paths jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject_id uuid;
+  v_chapter record;
+  v_chapter_id uuid;
+  v_note record;
+  v_pdf_path text;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can duplicate subjects';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'The duplicate needs a name';
+  END IF;
+
+  INSERT INTO subjects (name, description, image_url, status)
+  SELECT trim(p_name), description, image_url, 'draft'
+  FROM subjects
+  WHERE id = p_subject_id AND deleted_at IS NULL
+  RETURNING id INTO v_subject_id;
+
+  IF v_subject_id IS NULL THEN
+    RAISE EXCEPTION 'Subject % not found', p_subject_id;
+  END IF;
+
+  FOR v_chapter IN
+    SELECT * FROM chapters WHERE subject_id = p_subject_id AND deleted_at IS NULL ORDER BY position
+  LOOP
+    INSERT INTO chapters (subject_id, title, description, position, status, publish_at)
+    VALUES (v_subject_id, v_chapter.title, v_chapter.description, v_chapter.position, v_chapter.status, v_chapter.publish_at)
+    RETURNING id INTO v_chapter_id;
+
+    FOR v_note IN
+      SELECT * FROM notes WHERE chapter_id = v_chapter.id AND deleted_at IS NULL ORDER BY position
+    LOOP
+      v_pdf_path := coalesce(p_pdf_paths ->> v_note.id::text, v_note.pdf_path);
+
+      IF v_pdf_path <> v_note.pdf_path AND NOT EXISTS (
+        SELECT 1 FROM storage.objects WHERE bucket_id = 'pdfs' AND name = v_pdf_path
+      ) THEN
+        RAISE EXCEPTION 'PDF % was not found in storage', v_pdf_path;
+      END IF;
+
+      INSERT INTO notes (chapter_id, title, pdf_path, position, status, publish_at)
+      VALUES (v_chapter_id, v_note.title, v_pdf_path, v_note.position, v_note.status, v_note.publish_at);
+    END LOOP;
+
+    INSERT INTO videos (chapter_id, title, source_url, provider, provider_video_id, position, status, publish_at)
+    SELECT v_chapter_id, title, source_url, provider, provider_video_id, position, status, publish_at
+    FROM videos
+    WHERE chapter_id = v_chapter.id AND deleted_at IS NULL;
+  END LOOP;
+
+  RETURN v_subject_id;
+END;
+$function$;
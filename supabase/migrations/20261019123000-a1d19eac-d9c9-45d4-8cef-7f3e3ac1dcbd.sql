@@ -0,0 +1,253 @@
+-- Uploaded MP4s are transcoded into HLS renditions and a poster frame by the
+-- transcode worker (scripts/transcode-videos.mjs). Its output lives next to the
+-- source in the videos bucket under hls/<video_id>/.
+CREATE TYPE public.transcode_status AS ENUM ('pending', 'processing', 'ready', 'failed');
+
+-- One job per storage-backed video. Kept out of the videos table so worker
+-- updates don't show up in the activity log.
+CREATE TABLE public.video_transcodes (
+  video_id UUID NOT NULL PRIMARY KEY REFERENCES public.videos(id) ON DELETE CASCADE,
+  source_path TEXT NOT NULL,
+  status public.transcode_status NOT NULL DEFAULT 'pending',
+  playlist_path TEXT,
+  poster_path TEXT,
+  -- [{ "name": "720p", "width": 1280, "height": 720, "bandwidth": 3000000 }, ...]
+  renditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  duration_seconds NUMERIC,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.video_transcodes ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the video can see whether it has a stream
+CREATE POLICY "Users with access can view video transcodes"
+ON public.video_transcodes FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.videos v WHERE v.id = video_transcodes.video_id));
+
+-- Queues a transcode whenever a video starts pointing at a different uploaded file
+CREATE OR REPLACE FUNCTION public.queue_video_transcode()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.provider = 'storage' THEN
+    INSERT INTO public.video_transcodes (video_id, source_path)
+    VALUES (NEW.id, NEW.provider_video_id)
+    ON CONFLICT (video_id) DO UPDATE
+    SET source_path = EXCLUDED.source_path,
+        status = 'pending',
+        playlist_path = NULL,
+        poster_path = NULL,
+        renditions = '[]'::jsonb,
+        duration_seconds = NULL,
+        error = NULL,
+        attempts = 0,
+        claimed_at = NULL,
+        updated_at = now()
+    WHERE video_transcodes.source_path IS DISTINCT FROM EXCLUDED.source_path;
+  ELSE
+    DELETE FROM public.video_transcodes WHERE video_id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER queue_inserted_video_transcode
+AFTER INSERT ON public.videos
+FOR EACH ROW
+WHEN (NEW.provider = 'storage')
+EXECUTE FUNCTION public.queue_video_transcode();
+
+CREATE TRIGGER queue_changed_video_transcode
+AFTER UPDATE OF provider, provider_video_id ON public.videos
+FOR EACH ROW
+WHEN (OLD.provider IS DISTINCT FROM NEW.provider OR OLD.provider_video_id IS DISTINCT FROM NEW.provider_video_id)
+EXECUTE FUNCTION public.queue_video_transcode();
+
+-- Videos uploaded before transcoding existed
+INSERT INTO public.video_transcodes (video_id, source_path)
+SELECT id, provider_video_id
+FROM public.videos
+WHERE provider = 'storage';
+
+-- Hands the oldest waiting job to a worker. Jobs stuck in processing for two
+-- hours are assumed to belong to a worker that died; failed jobs are retried
+-- after ten minutes, up to three attempts in total.
+CREATE OR REPLACE FUNCTION public.claim_video_transcode()
+RETURNS SETOF public.video_transcodes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE video_transcodes
+  SET status = 'failed',
+      error = 'Transcoding did not finish',
+      updated_at = now()
+  WHERE status = 'processing'
+    AND claimed_at < now() - interval '2 hours'
+    AND attempts >= 3;
+
+  RETURN QUERY
+  UPDATE video_transcodes t
+  SET status = 'processing',
+      attempts = t.attempts + 1,
+      claimed_at = now(),
+      updated_at = now()
+  WHERE t.video_id = (
+    SELECT j.video_id
+    FROM video_transcodes j
+    WHERE j.status = 'pending'
+      OR (j.status = 'processing' AND j.claimed_at < now() - interval '2 hours')
+      OR (j.status = 'failed' AND j.attempts < 3 AND j.updated_at < now() - interval '10 minutes')
+    ORDER BY j.updated_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING t.*;
+END;
+$function$;
+
+-- Only the worker, connecting with the service role key, claims jobs
+REVOKE EXECUTE ON FUNCTION public.claim_video_transcode() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.retry_video_transcode(p_video_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can retry transcodes';
+  END IF;
+
+  UPDATE video_transcodes
+  SET status = 'pending',
+      error = NULL,
+      attempts = 0,
+      claimed_at = NULL,
+      updated_at = now()
+  WHERE video_id = p_video_id
+    AND status = 'failed';
+END;
+$function$;
+
+-- HLS playlists, segments and posters follow the same rules as the video they
+-- belong to, which are the same rules as notes
+CREATE OR REPLACE FUNCTION public.user_has_video_file_access(p_object_name text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF p_object_name ~ '^hls/[0-9a-f-]{36}/' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.videos v
+      WHERE v.id = split_part(p_object_name, '/', 2)::uuid
+        AND v.deleted_at IS NULL
+        AND public.is_released(v.status, v.publish_at)
+        AND public.user_has_chapter_access(v.chapter_id)
+    );
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.videos v
+    WHERE v.provider = 'storage'
+      AND v.provider_video_id = p_object_name
+      AND v.deleted_at IS NULL
+      AND public.is_released(v.status, v.publish_at)
+      AND public.user_has_chapter_access(v.chapter_id)
+  );
+END;
+$function$;
+
+-- Removing a job removes everything the worker wrote for it
+CREATE OR REPLACE FUNCTION public.enqueue_video_transcode_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.storage_deletions (bucket_id, object_name)
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'videos'
+    AND o.name LIKE 'hls/' || OLD.video_id || '/%'
+  ON CONFLICT (bucket_id, object_name) DO NOTHING;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- Fires when a video is purged or stops using an uploaded file
+CREATE TRIGGER enqueue_deleted_video_transcode
+AFTER DELETE ON public.video_transcodes
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_video_transcode_deletion();
+
+-- Duplicated subjects share their uploaded files, so a file is only removed
+-- once no video uses it any more
+CREATE OR REPLACE FUNCTION public.enqueue_video_file_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.videos v
+    WHERE v.provider = 'storage'
+      AND v.provider_video_id = OLD.provider_video_id
+  ) THEN
+    INSERT INTO public.storage_deletions (bucket_id, object_name)
+    VALUES ('videos', OLD.provider_video_id)
+    ON CONFLICT (bucket_id, object_name) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER enqueue_deleted_video_file
+AFTER DELETE ON public.videos
+FOR EACH ROW
+WHEN (OLD.provider = 'storage')
+EXECUTE FUNCTION public.enqueue_video_file_deletion();
+
+CREATE TRIGGER enqueue_replaced_video_file
+AFTER UPDATE OF provider, provider_video_id ON public.videos
+FOR EACH ROW
+WHEN (OLD.provider = 'storage'
+  AND (NEW.provider IS DISTINCT FROM OLD.provider OR NEW.provider_video_id IS DISTINCT FROM OLD.provider_video_id))
+EXECUTE FUNCTION public.enqueue_video_file_deletion();
+
+-- A video pointing at a queued file takes it back off the queue, like notes do
+-- for their PDFs
+CREATE OR REPLACE FUNCTION public.cancel_video_file_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  DELETE FROM public.storage_deletions
+  WHERE bucket_id = 'videos' AND object_name = NEW.provider_video_id;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER cancel_video_file_deletion
+AFTER INSERT OR UPDATE OF provider, provider_video_id ON public.videos
+FOR EACH ROW
+WHEN (NEW.provider = 'storage')
+EXECUTE FUNCTION public.cancel_video_file_deletion();
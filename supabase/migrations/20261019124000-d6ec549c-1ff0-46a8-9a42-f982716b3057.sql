@@ -0,0 +1,419 @@
+-- Timestamped sections of a lecture video, shown as a clickable outline next
+-- to the player
+CREATE TABLE public.video_sections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (trim(title) <> ''),
+  start_seconds INTEGER NOT NULL CHECK (start_seconds >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (video_id, start_seconds)
+);
+
+ALTER TABLE public.video_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users with access can view video sections"
+ON public.video_sections FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.videos v WHERE v.id = video_sections.video_id));
+
+CREATE POLICY "Content managers can manage video sections"
+ON public.video_sections FOR ALL
+USING (public.can_manage_content());
+
+-- The editor saves the whole outline at once: [{ "title": ..., "start_seconds": ... }]
+CREATE OR REPLACE FUNCTION public.set_video_sections(p_video_id uuid, p_sections jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_section jsonb;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can edit video sections';
+  END IF;
+
+  IF jsonb_typeof(p_sections) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Expected a sections array';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM videos WHERE id = p_video_id) THEN
+    RAISE EXCEPTION 'Video % not found', p_video_id;
+  END IF;
+
+  DELETE FROM video_sections WHERE video_id = p_video_id;
+
+  FOR v_section IN SELECT * FROM jsonb_array_elements(p_sections) LOOP
+    IF coalesce(trim(v_section ->> 'title'), '') = '' THEN
+      RAISE EXCEPTION 'Every section needs a title';
+    END IF;
+
+    IF jsonb_typeof(v_section -> 'start_seconds') IS DISTINCT FROM 'number'
+      OR (v_section ->> 'start_seconds')::numeric < 0 THEN
+      RAISE EXCEPTION 'Section "%" needs a start time', v_section ->> 'title';
+    END IF;
+
+    INSERT INTO video_sections (video_id, title, start_seconds)
+    VALUES (p_video_id, trim(v_section ->> 'title'), floor((v_section ->> 'start_seconds')::numeric)::integer)
+    ON CONFLICT (video_id, start_seconds) DO UPDATE SET title = EXCLUDED.title;
+  END LOOP;
+END;
+$function$;
+
+-- Copies carry each video's sections along
+CREATE OR REPLACE FUNCTION public.duplicate_subject(
+  p_subject_id uuid,
+  p_name text,
+  p_pdf_paths jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject_id uuid;
+  v_chapter record;
+  v_chapter_id uuid;
+  v_note record;
+  v_pdf_path text;
+  v_video record;
+  v_video_id uuid;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can duplicate subjects';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'The duplicate needs a name';
+  END IF;
+
+  INSERT INTO subjects (name, description, image_url, status)
+  SELECT trim(p_name), description, image_url, 'draft'
+  FROM subjects
+  WHERE id = p_subject_id AND deleted_at IS NULL
+  RETURNING id INTO v_subject_id;
+
+  IF v_subject_id IS NULL THEN
+    RAISE EXCEPTION 'Subject % not found', p_subject_id;
+  END IF;
+
+  FOR v_chapter IN
+    SELECT * FROM chapters WHERE subject_id = p_subject_id AND deleted_at IS NULL ORDER BY position
+  LOOP
+    INSERT INTO chapters (subject_id, title, description, position, status, publish_at)
+    VALUES (v_subject_id, v_chapter.title, v_chapter.description, v_chapter.position, v_chapter.status, v_chapter.publish_at)
+    RETURNING id INTO v_chapter_id;
+
+    FOR v_note IN
+      SELECT * FROM notes WHERE chapter_id = v_chapter.id AND deleted_at IS NULL ORDER BY position
+    LOOP
+      v_pdf_path := coalesce(p_pdf_paths ->> v_note.id::text, v_note.pdf_path);
+
+      IF v_pdf_path <> v_note.pdf_path AND NOT EXISTS (
+        SELECT 1 FROM storage.objects WHERE bucket_id = 'pdfs' AND name = v_pdf_path
+      ) THEN
+        RAISE EXCEPTION 'PDF % was not found in storage', v_pdf_path;
+      END IF;
+
+      INSERT INTO notes (chapter_id, title, pdf_path, position, status, publish_at)
+      VALUES (v_chapter_id, v_note.title, v_pdf_path, v_note.position, v_note.status, v_note.publish_at);
+    END LOOP;
+
+    FOR v_video IN
+      SELECT * FROM videos WHERE chapter_id = v_chapter.id AND deleted_at IS NULL ORDER BY position
+    LOOP
+      INSERT INTO videos (chapter_id, title, source_url, provider, provider_video_id, position, status, publish_at)
+      VALUES (v_chapter_id, v_video.title, v_video.source_url, v_video.provider, v_video.provider_video_id, v_video.position, v_video.status, v_video.publish_at)
+      RETURNING id INTO v_video_id;
+
+      INSERT INTO video_sections (video_id, title, start_seconds)
+      SELECT v_video_id, title, start_seconds
+      FROM video_sections
+      WHERE video_id = v_video.id;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_subject_id;
+END;
+$function$;
+
+-- Imports can set a video's outline along with its link
+CREATE OR REPLACE FUNCTION public.import_course(p_course jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject jsonb;
+  v_chapter jsonb;
+  v_item jsonb;
+  v_subject_id uuid;
+  v_chapter_id uuid;
+  v_id uuid;
+  v_new_video boolean;
+  v_changed boolean;
+  v_sections jsonb;
+  v_created integer := 0;
+  v_updated integer := 0;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can import courses';
+  END IF;
+
+  IF jsonb_typeof(p_course -> 'subjects') IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Expected a subjects array';
+  END IF;
+
+  FOR v_subject IN SELECT * FROM jsonb_array_elements(p_course -> 'subjects') LOOP
+    IF coalesce(trim(v_subject ->> 'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every subject needs a name';
+    END IF;
+
+    SELECT id INTO v_subject_id
+    FROM subjects
+    WHERE lower(name) = lower(trim(v_subject ->> 'name')) AND deleted_at IS NULL
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_subject_id IS NULL THEN
+      INSERT INTO subjects (name, description, image_url)
+      VALUES (trim(v_subject ->> 'name'), v_subject ->> 'description', v_subject ->> 'image_url')
+      RETURNING id INTO v_subject_id;
+      v_created := v_created + 1;
+    ELSE
+      UPDATE subjects
+      SET description = coalesce(v_subject ->> 'description', description),
+          image_url = coalesce(v_subject ->> 'image_url', image_url)
+      WHERE id = v_subject_id
+        AND (description IS DISTINCT FROM coalesce(v_subject ->> 'description', description)
+          OR image_url IS DISTINCT FROM coalesce(v_subject ->> 'image_url', image_url));
+      IF FOUND THEN
+        v_updated := v_updated + 1;
+      END IF;
+    END IF;
+
+    FOR v_chapter IN SELECT * FROM jsonb_array_elements(coalesce(v_subject -> 'chapters', '[]'::jsonb)) LOOP
+      IF coalesce(trim(v_chapter ->> 'title'), '') = '' THEN
+        RAISE EXCEPTION 'Every chapter in % needs a title', v_subject ->> 'name';
+      END IF;
+
+      SELECT id INTO v_chapter_id
+      FROM chapters
+      WHERE subject_id = v_subject_id
+        AND lower(title) = lower(trim(v_chapter ->> 'title'))
+        AND deleted_at IS NULL
+      ORDER BY position
+      LIMIT 1;
+
+      IF v_chapter_id IS NULL THEN
+        INSERT INTO chapters (subject_id, title, description)
+        VALUES (v_subject_id, trim(v_chapter ->> 'title'), v_chapter ->> 'description')
+        RETURNING id INTO v_chapter_id;
+        v_created := v_created + 1;
+      ELSE
+        UPDATE chapters
+        SET description = coalesce(v_chapter ->> 'description', description)
+        WHERE id = v_chapter_id
+          AND description IS DISTINCT FROM coalesce(v_chapter ->> 'description', description);
+        IF FOUND THEN
+          v_updated := v_updated + 1;
+        END IF;
+      END IF;
+
+      FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(v_chapter -> 'videos', '[]'::jsonb)) LOOP
+        IF coalesce(trim(v_item ->> 'title'), '') = '' THEN
+          RAISE EXCEPTION 'Every video in % needs a title', v_chapter ->> 'title';
+        END IF;
+
+        IF coalesce(v_item ->> 'provider', '') NOT IN ('youtube', 'vimeo', 'storage')
+          OR coalesce(v_item ->> 'provider_video_id', '') = '' THEN
+          RAISE EXCEPTION 'Video % does not have a supported video URL', v_item ->> 'title';
+        END IF;
+
+        IF v_item ->> 'provider' = 'storage' AND NOT EXISTS (
+          SELECT 1 FROM storage.objects
+          WHERE bucket_id = 'videos' AND name = v_item ->> 'provider_video_id'
+        ) THEN
+          RAISE EXCEPTION 'Video file % was not found in storage', v_item ->> 'provider_video_id';
+        END IF;
+
+        SELECT id INTO v_id
+        FROM videos
+        WHERE chapter_id = v_chapter_id
+          AND lower(title) = lower(trim(v_item ->> 'title'))
+          AND deleted_at IS NULL
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_id IS NULL THEN
+          INSERT INTO videos (chapter_id, title, source_url, provider, provider_video_id)
+          VALUES (
+            v_chapter_id,
+            trim(v_item ->> 'title'),
+            v_item ->> 'source_url',
+            (v_item ->> 'provider')::public.video_provider,
+            v_item ->> 'provider_video_id'
+          )
+          RETURNING id INTO v_id;
+          v_created := v_created + 1;
+          v_new_video := true;
+          v_changed := false;
+        ELSE
+          UPDATE videos
+          SET source_url = v_item ->> 'source_url',
+              provider = (v_item ->> 'provider')::public.video_provider,
+              provider_video_id = v_item ->> 'provider_video_id'
+          WHERE id = v_id AND source_url IS DISTINCT FROM v_item ->> 'source_url';
+          v_new_video := false;
+          v_changed := FOUND;
+        END IF;
+
+        -- An outline in the file replaces the video's sections; videos listed
+        -- without one keep theirs
+        IF v_item ? 'sections' THEN
+          SELECT coalesce(jsonb_agg(jsonb_build_object('title', title, 'start_seconds', start_seconds) ORDER BY start_seconds), '[]'::jsonb)
+          INTO v_sections
+          FROM video_sections
+          WHERE video_id = v_id;
+
+          PERFORM public.set_video_sections(v_id, v_item -> 'sections');
+
+          v_changed := v_changed OR v_sections IS DISTINCT FROM (
+            SELECT coalesce(jsonb_agg(jsonb_build_object('title', title, 'start_seconds', start_seconds) ORDER BY start_seconds), '[]'::jsonb)
+            FROM video_sections
+            WHERE video_id = v_id
+          );
+        END IF;
+
+        -- New videos are already counted as created
+        IF v_changed AND NOT v_new_video THEN
+          v_updated := v_updated + 1;
+        END IF;
+      END LOOP;
+
+      FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(v_chapter -> 'notes', '[]'::jsonb)) LOOP
+        IF coalesce(trim(v_item ->> 'title'), '') = '' THEN
+          RAISE EXCEPTION 'Every note in % needs a title', v_chapter ->> 'title';
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM storage.objects
+          WHERE bucket_id = 'pdfs' AND name = v_item ->> 'pdf_path'
+        ) THEN
+          RAISE EXCEPTION 'PDF % was not found in storage', v_item ->> 'pdf_path';
+        END IF;
+
+        SELECT id INTO v_id
+        FROM notes
+        WHERE chapter_id = v_chapter_id
+          AND lower(title) = lower(trim(v_item ->> 'title'))
+          AND deleted_at IS NULL
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_id IS NULL THEN
+          INSERT INTO notes (chapter_id, title, pdf_path)
+          VALUES (v_chapter_id, trim(v_item ->> 'title'), v_item ->> 'pdf_path');
+          v_created := v_created + 1;
+        ELSE
+          UPDATE notes
+          SET pdf_path = v_item ->> 'pdf_path'
+          WHERE id = v_id AND pdf_path IS DISTINCT FROM v_item ->> 'pdf_path';
+          IF FOUND THEN
+            v_updated := v_updated + 1;
+          END IF;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$function$;
+
+-- Archives carry each video's sections
+CREATE OR REPLACE FUNCTION public.restore_course(p_subject jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_subject_id uuid;
+  v_chapter_id uuid;
+  v_chapter jsonb;
+  v_chapter_position bigint;
+  v_item jsonb;
+  v_item_position bigint;
+  v_video_id uuid;
+BEGIN
+  IF NOT public.can_manage_content() THEN
+    RAISE EXCEPTION 'Only content managers can restore courses';
+  END IF;
+
+  IF coalesce(trim(p_subject ->> 'name'), '') = '' THEN
+    RAISE EXCEPTION 'The subject needs a name';
+  END IF;
+
+  INSERT INTO subjects (name, description, image_url)
+  VALUES (trim(p_subject ->> 'name'), p_subject ->> 'description', p_subject ->> 'image_url')
+  RETURNING id INTO v_subject_id;
+
+  FOR v_chapter, v_chapter_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(coalesce(p_subject -> 'chapters', '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    INSERT INTO chapters (subject_id, title, description, position)
+    VALUES (v_subject_id, v_chapter ->> 'title', v_chapter ->> 'description', v_chapter_position)
+    RETURNING id INTO v_chapter_id;
+
+    FOR v_item, v_item_position IN
+      SELECT value, ordinality FROM jsonb_array_elements(coalesce(v_chapter -> 'notes', '[]'::jsonb)) WITH ORDINALITY
+    LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM storage.objects
+        WHERE bucket_id = 'pdfs' AND name = v_item ->> 'pdf_path'
+      ) THEN
+        RAISE EXCEPTION 'PDF % was not found in storage', v_item ->> 'pdf_path';
+      END IF;
+
+      INSERT INTO notes (chapter_id, title, pdf_path, position)
+      VALUES (v_chapter_id, v_item ->> 'title', v_item ->> 'pdf_path', v_item_position);
+    END LOOP;
+
+    FOR v_item, v_item_position IN
+      SELECT value, ordinality FROM jsonb_array_elements(coalesce(v_chapter -> 'videos', '[]'::jsonb)) WITH ORDINALITY
+    LOOP
+      IF coalesce(v_item ->> 'provider', '') NOT IN ('youtube', 'vimeo', 'storage')
+        OR coalesce(v_item ->> 'provider_video_id', '') = '' THEN
+        RAISE EXCEPTION 'Video % does not have a supported video URL', v_item ->> 'title';
+      END IF;
+
+      -- Archives only carry the path of uploaded files, so the file must still be here
+      IF v_item ->> 'provider' = 'storage' AND NOT EXISTS (
+        SELECT 1 FROM storage.objects
+        WHERE bucket_id = 'videos' AND name = v_item ->> 'provider_video_id'
+      ) THEN
+        RAISE EXCEPTION 'Video file % for "%" was not found in storage; upload it again before restoring',
+          v_item ->> 'provider_video_id', v_item ->> 'title';
+      END IF;
+
+      INSERT INTO videos (chapter_id, title, source_url, provider, provider_video_id, position)
+      VALUES (
+        v_chapter_id,
+        v_item ->> 'title',
+        v_item ->> 'source_url',
+        (v_item ->> 'provider')::public.video_provider,
+        v_item ->> 'provider_video_id',
+        v_item_position
+      )
+      RETURNING id INTO v_video_id;
+
+      PERFORM public.set_video_sections(v_video_id, coalesce(v_item -> 'sections', '[]'::jsonb));
+    END LOOP;
+  END LOOP;
+
+  RETURN v_subject_id;
+END;
+$function$;